@@ -4,6 +4,8 @@ import { v } from "convex/values";
 export default defineSchema({
   scrapeRuns: defineTable({
     startedAt: v.string(),
+    // Optional so runs logged before multi-county support still validate
+    county: v.optional(v.string()),
     completedAt: v.optional(v.string()),
     status: v.union(
       v.literal("running"),
@@ -19,5 +21,6 @@ export default defineSchema({
     errorStep: v.optional(v.string()),
   })
     .index("by_startedAt", ["startedAt"])
-    .index("by_status_startedAt", ["status", "startedAt"]),
+    .index("by_status_startedAt", ["status", "startedAt"])
+    .index("by_county_startedAt", ["county", "startedAt"]),
 });
@@ -3,10 +3,13 @@ import { v } from "convex/values";
 
 /** Create a new run record with status "running". Returns the document ID. */
 export const startRun = mutation({
-  args: {},
-  handler: async (ctx) => {
+  args: {
+    county: v.optional(v.string()),
+  },
+  handler: async (ctx, { county }) => {
     return await ctx.db.insert("scrapeRuns", {
       startedAt: new Date().toISOString(),
+      county,
       status: "running",
       totalOnSite: 0,
       newFilings: 0,
@@ -91,12 +94,20 @@ export const getStats = query({
   },
 });
 
-/** Return the N most recent runs for dashboard inspection. */
+/** Return the N most recent runs for dashboard inspection, optionally for one county. */
 export const getRecentRuns = query({
   args: {
     limit: v.optional(v.number()),
+    county: v.optional(v.string()),
   },
-  handler: async (ctx, { limit = 20 }) => {
+  handler: async (ctx, { limit = 20, county }) => {
+    if (county !== undefined) {
+      return await ctx.db
+        .query("scrapeRuns")
+        .withIndex("by_county_startedAt", (q) => q.eq("county", county))
+        .order("desc")
+        .take(limit);
+    }
     return await ctx.db
       .query("scrapeRuns")
       .withIndex("by_startedAt")
@@ -0,0 +1,71 @@
+/**
+ * API KEY SCRIPT
+ *
+ * Creates, lists and revokes the keys the HTTP server accepts (see apiKeys.ts).
+ * A new key is printed once — store it in n8n's credentials right away.
+ *
+ * Usage: npm run api-keys -- create --name n8n --scopes trigger,read [--rate-limit 120]
+ *        npm run api-keys -- list
+ *        npm run api-keys -- revoke <key id>
+ */
+
+import { initDatabase, closeDatabase, getApiKeys, revokeApiKey } from './database.js';
+import { issueApiKey, parseScopes } from './apiKeys.js';
+import { log } from './logger.js';
+
+function main(): void {
+  const [command, ...args] = process.argv.slice(2);
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const match = args[i].match(/^--([a-z-]+)(?:=(.*))?$/);
+    if (!match) positional.push(args[i]);
+    else flags[match[1]] = match[2] ?? args[++i] ?? '';
+  }
+
+  if (command !== 'create' && command !== 'list' && command !== 'revoke') {
+    throw new Error(`Unknown command "${command ?? ''}" — expected "create", "list" or "revoke"`);
+  }
+
+  initDatabase();
+  try {
+    if (command === 'create') {
+      if (!flags.name) throw new Error('--name is required (e.g. --name n8n)');
+      if (!flags.scopes) throw new Error('--scopes is required (e.g. --scopes trigger,read)');
+      const { key, record } = issueApiKey({
+        name: flags.name,
+        scopes: parseScopes(flags.scopes),
+        rateLimit: flags['rate-limit'] !== undefined ? Number(flags['rate-limit']) : null,
+      });
+      log.success(`Created ${record.id} (${record.name}) with scopes: ${record.scopes.join(', ')}`);
+      log.info(`Key: ${key}`);
+      log.info('This is the only time the key is shown. Send it as: Authorization: Bearer <key>');
+      return;
+    }
+
+    if (command === 'revoke') {
+      const id = positional[0];
+      if (!id) throw new Error('Usage: npm run api-keys -- revoke <key id>');
+      if (!revokeApiKey(id)) throw new Error(`No active key with id ${id}`);
+      log.success(`Revoked ${id}`);
+      return;
+    }
+
+    const keys = getApiKeys();
+    for (const key of keys) {
+      const state = key.revoked_at ? `revoked ${key.revoked_at}` : `last used ${key.last_used_at ?? 'never'}`;
+      const limit = key.rate_limit ? `${key.rate_limit}/min` : 'default limit';
+      log.info(`  ${key.id}  ${key.name.padEnd(20)} ${key.scopes.join(',').padEnd(20)} ${limit.padEnd(14)} ${state}`);
+    }
+    log.info(`${keys.filter(k => !k.revoked_at).length} active, ${keys.filter(k => k.revoked_at).length} revoked`);
+  } finally {
+    closeDatabase();
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  log.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
@@ -0,0 +1,109 @@
+/**
+ * API KEYS
+ *
+ * Bearer-token keys for the HTTP server. Each key has a name, one or more
+ * scopes and an optional per-minute rate limit:
+ *   trigger — start work that costs money or hits the county site
+ *             (POST /scrape, POST /lookup-address)
+ *   read    — every GET endpoint (jobs, filings, exports, leads)
+ *   admin   — everything, including changing lead records
+ *             (POST /filings/:document_number/status and /contacts)
+ *
+ * Only the SHA-256 of a key is stored, so a key can't be recovered from the
+ * database — it's printed once by `npm run api-keys -- create`. Keys are
+ * high-entropy random strings, so a plain hash is enough (no salt/KDF).
+ */
+
+import crypto from 'crypto';
+import {
+  createApiKey, findApiKey, touchApiKey, API_SCOPES,
+  type ApiKey, type ApiScope,
+} from './database.js';
+import { server as serverConfig } from './config.js';
+
+const KEY_PREFIX = 'lpk_';
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/** "trigger,read" → ['trigger', 'read']. Throws on an unknown scope. */
+export function parseScopes(value: string): ApiScope[] {
+  const scopes = value.split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+  const unknown = scopes.filter(s => !API_SCOPES.includes(s as ApiScope));
+  if (scopes.length === 0 || unknown.length > 0) {
+    throw new Error(`Scopes must be a comma-separated list of: ${API_SCOPES.join(', ')}`);
+  }
+  return [...new Set(scopes)] as ApiScope[];
+}
+
+/** Create and store a key. Returns the key itself, which is never stored —
+ *  the caller must show it now. Call with the database open. */
+export function issueApiKey(options: { name: string; scopes: ApiScope[]; rateLimit?: number | null }): { key: string; record: ApiKey } {
+  const rateLimit = options.rateLimit ?? null;
+  if (rateLimit !== null && (!Number.isInteger(rateLimit) || rateLimit < 1)) {
+    throw new Error('Rate limit must be a whole number of requests per minute');
+  }
+
+  const key = KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const record = createApiKey({
+    id: `key_${crypto.randomBytes(4).toString('hex')}`,
+    name: options.name,
+    key_hash: hashApiKey(key),
+    scopes: options.scopes,
+    rate_limit: rateLimit,
+  });
+  return { key, record };
+}
+
+/** The active key named by an "Authorization: Bearer <key>" header, or null.
+ *  Records when it was last used. Call with the database open. */
+export function authenticate(authorization: string | undefined): ApiKey | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (!match) return null;
+
+  const key = findApiKey(hashApiKey(match[1]));
+  if (key) touchApiKey(key.id);
+  return key;
+}
+
+/** admin implies every other scope */
+export function hasScope(key: ApiKey, scope: ApiScope): boolean {
+  return key.scopes.includes('admin') || key.scopes.includes(scope);
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+export interface RateLimitState {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the current window resets */
+  reset_seconds: number;
+}
+
+const WINDOW_MS = 60_000;
+
+// Per-process: a fixed one-minute window per key
+const windows = new Map<string, { startedAt: number; count: number }>();
+
+/** Count a request against the key's per-minute limit */
+export function checkRateLimit(key: ApiKey, now: number = Date.now()): RateLimitState {
+  const limit = key.rate_limit ?? serverConfig.rateLimitPerMinute;
+  let window = windows.get(key.id);
+  if (!window || now - window.startedAt >= WINDOW_MS) {
+    window = { startedAt: now, count: 0 };
+    windows.set(key.id, window);
+  }
+
+  const allowed = window.count < limit;
+  if (allowed) window.count++;
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, limit - window.count),
+    reset_seconds: Math.ceil((window.startedAt + WINDOW_MS - now) / 1000),
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * BROWSER HELPERS
+ *
+ * Playwright browser lifecycle plus the small helpers every county adapter
+ * uses: screenshots and the polite delay between actions.
+ */
+
+import { chromium, type Browser, type Page } from 'playwright';
+import { execSync } from 'child_process';
+import path from 'path';
+import { scraper as scraperConfig, paths } from './config.js';
+import { log } from './logger.js';
+
+// ---------------------------------------------------------------------------
+// Browser management
+// ---------------------------------------------------------------------------
+
+let browser: Browser | null = null;
+
+/** Kill any orphaned chromium processes and clean up temp dirs from previous
+ *  failed runs. This is critical on resource-constrained containers (Railway)
+ *  where zombie processes cause EAGAIN / pthread_create failures. */
+function killOrphanedChromium(): void {
+  const commands = [
+    'pkill -f chrome-headless-shell 2>/dev/null || true',
+    'pkill -f chromium 2>/dev/null || true',
+    'rm -rf /tmp/playwright_* 2>/dev/null || true',
+  ];
+  for (const cmd of commands) {
+    try {
+      execSync(cmd, { stdio: 'ignore' });
+    } catch {
+      // Safe to ignore — process may not exist or command unavailable
+    }
+  }
+}
+
+export async function launchBrowser(): Promise<Page> {
+  log.step(0, 'Launching browser...');
+
+  // Clean up any zombie chromium processes before spawning a new one
+  killOrphanedChromium();
+
+  // Brief pause to let the OS reclaim resources after killing processes
+  await new Promise(resolve => setTimeout(resolve, 1000));
+
+  browser = await chromium.launch({
+    headless: scraperConfig.headless,
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+    ],
+  });
+
+  const context = await browser.newContext({
+    viewport: { width: 1280, height: 900 },
+    userAgent:
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  });
+
+  const page = await context.newPage();
+  page.setDefaultTimeout(scraperConfig.pageTimeout);
+
+  log.success('Browser launched');
+  return page;
+}
+
+export async function closeBrowser(): Promise<void> {
+  if (browser) {
+    try {
+      await browser.close();
+    } catch {
+      // Graceful close failed — force-kill orphaned processes
+      killOrphanedChromium();
+    }
+    browser = null;
+    log.info('Browser closed');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Screenshot helpers
+// ---------------------------------------------------------------------------
+
+export async function screenshot(page: Page, name: string): Promise<string> {
+  const filename = `${name}-${Date.now()}.png`;
+  const filepath = path.join(paths.screenshots, filename);
+  await page.screenshot({ path: filepath, fullPage: true });
+  log.info(`Screenshot saved: ${filename}`);
+  return filepath;
+}
+
+export async function errorScreenshot(page: Page, name: string): Promise<string> {
+  const filename = `error-${name}-${Date.now()}.png`;
+  const filepath = path.join(paths.errors, filename);
+  await page.screenshot({ path: filepath, fullPage: true });
+  log.error(`Error screenshot saved: ${filename}`);
+  return filepath;
+}
+
+// ---------------------------------------------------------------------------
+// Delay helper — be polite to the county website
+// ---------------------------------------------------------------------------
+
+export function delay(ms?: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms ?? scraperConfig.actionDelay));
+}
@@ -0,0 +1,160 @@
+/**
+ * Tests for caseTracking.ts — how follow-up documents are tied to stored
+ * filings and how a case's status moves.
+ *
+ * Usage: npm test
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchFollowUp, referencedInstruments, advanceStatus, statusForDocumentType } from './caseTracking.js';
+import type { Filing, TrackedFiling } from './database.js';
+
+/** The stored Lis Pendens the follow-ups below are matched against */
+const LIS_PENDENS: TrackedFiling = {
+  county: 'orange',
+  document_number: '20260012345',
+  document_type: 'Lis Pendens',
+  recording_date: '2/5/2026',
+  grantor_name: 'WELLS FARGO BANK NA',
+  grantee_name: 'SMITH JOHN A\nSMITH MARY\nUNKNOWN TENANTS',
+  legal_description: 'Lot: 7 RIDGEMOORE PHASE ONE',
+  case_number: '2026-CA-001234-O',
+  book: '10234',
+  page: '5678',
+  normalized_plaintiff: null,
+  case_status: 'filed',
+};
+
+function followUp(fields: Partial<Filing>): Filing {
+  return {
+    county: 'orange',
+    document_number: '20260099999',
+    document_type: 'Final Judgment',
+    recording_date: '6/1/2026',
+    grantor_name: 'SOMEONE ELSE',
+    grantee_name: 'NOBODY',
+    legal_description: '',
+    ...fields,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// References in legal descriptions
+// ---------------------------------------------------------------------------
+
+describe('referencedInstruments', () => {
+  test('finds document numbers with or without the dash', () => {
+    assert.deepEqual(referencedInstruments('REL LP DOC# 20260012345 AND 2026-0012346').document_numbers, [
+      '20260012345', '20260012346',
+    ]);
+  });
+
+  test('finds book and page references in their common spellings', () => {
+    assert.deepEqual(
+      referencedInstruments('OR BK 10234 PG 5678; BOOK 00987, PAGE 0012; B 55/P 6').book_pages,
+      ['10234/5678', '987/12', '55/6'],
+    );
+  });
+
+  test('lists each reference once', () => {
+    const refs = referencedInstruments('DOC 20260012345 DOC 20260012345 BK 1 PG 2 BK 1 PG 2');
+    assert.deepEqual(refs, { document_numbers: ['20260012345'], book_pages: ['1/2'] });
+  });
+
+  test('nothing in plain text or an empty description', () => {
+    assert.deepEqual(referencedInstruments('LOT 7 RIDGEMOORE'), { document_numbers: [], book_pages: [] });
+    assert.deepEqual(referencedInstruments(''), { document_numbers: [], book_pages: [] });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Matching follow-ups
+// ---------------------------------------------------------------------------
+
+describe('matchFollowUp', () => {
+  test('by case number, ignoring punctuation', () => {
+    assert.equal(matchFollowUp(LIS_PENDENS, followUp({ case_number: '2026CA001234O' })), 'case_number');
+  });
+
+  test('by the filing\'s document number in the legal description', () => {
+    const release = followUp({ document_type: 'Release of Lis Pendens', legal_description: 'REL LP DOC# 20260012345' });
+    assert.equal(matchFollowUp(LIS_PENDENS, release), 'document_number');
+  });
+
+  test('by book and page', () => {
+    assert.equal(matchFollowUp(LIS_PENDENS, followUp({ legal_description: 'OR BK 10234 PG 5678' })), 'book_page');
+  });
+
+  test('by a grantee named either way round, on the same land', () => {
+    const judgment = followUp({ grantee_name: 'JOHN A SMITH', legal_description: 'LOT 7 RIDGEMOORE PHASE ONE' });
+    assert.equal(matchFollowUp(LIS_PENDENS, judgment), 'legal_description');
+  });
+
+  test('by a grantee and the same plaintiff', () => {
+    const sale = followUp({
+      document_type: 'Certificate of Sale',
+      grantor_name: 'WELLS FARGO BANK N A',
+      grantee_name: 'SMITH MARY',
+      legal_description: 'UNIT 12 LAKESIDE CONDO',
+    });
+    assert.equal(matchFollowUp(LIS_PENDENS, sale), 'plaintiff');
+  });
+
+  test('a shared grantee alone is not enough', () => {
+    const other = followUp({ grantee_name: 'SMITH MARY', legal_description: 'UNIT 12 LAKESIDE CONDO' });
+    assert.equal(matchFollowUp(LIS_PENDENS, other), null);
+  });
+
+  test('placeholder parties never match', () => {
+    const other = followUp({ grantee_name: 'UNKNOWN TENANTS', legal_description: 'LOT 7 RIDGEMOORE PHASE ONE' });
+    assert.equal(matchFollowUp(LIS_PENDENS, other), null);
+  });
+
+  test('not a document recorded before the filing', () => {
+    const early = followUp({ case_number: '2026-CA-001234-O', recording_date: '1/15/2026' });
+    assert.equal(matchFollowUp(LIS_PENDENS, early), null);
+  });
+
+  test('not the filing itself', () => {
+    const self = followUp({ document_number: LIS_PENDENS.document_number, case_number: LIS_PENDENS.case_number });
+    assert.equal(matchFollowUp(LIS_PENDENS, self), null);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Status changes
+// ---------------------------------------------------------------------------
+
+describe('advanceStatus', () => {
+  test('moves forward through the case', () => {
+    assert.equal(advanceStatus('filed', 'judgment'), 'judgment');
+    assert.equal(advanceStatus('judgment', 'sale_scheduled'), 'sale_scheduled');
+    assert.equal(advanceStatus('filed', 'sold'), 'sold');
+  });
+
+  test('never moves back', () => {
+    assert.equal(advanceStatus('sale_scheduled', 'judgment'), 'sale_scheduled');
+    assert.equal(advanceStatus('judgment', 'filed'), 'judgment');
+  });
+
+  test('a release closes an open case from any state', () => {
+    assert.equal(advanceStatus('filed', 'released'), 'released');
+    assert.equal(advanceStatus('sale_scheduled', 'released'), 'released');
+  });
+
+  test('sold and released are final', () => {
+    assert.equal(advanceStatus('sold', 'released'), 'sold');
+    assert.equal(advanceStatus('released', 'sold'), 'released');
+  });
+});
+
+describe('statusForDocumentType', () => {
+  test('releases win over the judgment they satisfy', () => {
+    assert.equal(statusForDocumentType('Satisfaction of Judgment'), 'released');
+    assert.equal(statusForDocumentType('Final Judgment'), 'judgment');
+    assert.equal(statusForDocumentType('Notice of Foreclosure Sale'), 'sale_scheduled');
+    assert.equal(statusForDocumentType('Certificate of Title'), 'sold');
+    assert.equal(statusForDocumentType('Lis Pendens'), 'filed');
+  });
+});
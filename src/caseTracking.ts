@@ -0,0 +1,369 @@
+/**
+ * CASE LIFECYCLE TRACKING
+ *
+ * A Lis Pendens is only the start of a foreclosure. This re-searches the
+ * official records for the documents that follow it — Final Judgment,
+ * Notice/Certificate of Sale, Certificate of Title, Release of Lis Pendens —
+ * ties each one to the stored filings it belongs to, and moves those filings
+ * through their states:
+ *
+ *   filed → judgment → sale_scheduled → sold
+ *     └──────────┴───────────┴──→ released (dismissed, released or satisfied)
+ *
+ * States only move forward; sold and released are final. A filing is still
+ * actionable for sales until it is sold or released.
+ *
+ * A follow-up belongs to a filing when it shares a case number with it,
+ * refers to it by document number or book/page, or names one of the filing's
+ * grantees and either describes the same land or comes from the same plaintiff.
+ *
+ * Releases are also picked up by the daily scrape (RELEASE_DOCUMENT_TYPES),
+ * so dead leads are closed the day their release is recorded.
+ *
+ * The scheduler queues a tracking run on SCHEDULE_CASE_TRACKING_CRONS; it goes
+ * through the job queue like a scrape, so the two never share the browser.
+ */
+
+import { scrapeFilings } from './scraper.js';
+import { getCountyAdapter } from './counties/index.js';
+import {
+  initDatabase,
+  closeDatabase,
+  getTrackedFilings,
+  recordCaseEvent,
+  saveCaseStatus,
+  type Filing,
+  type TrackedFiling,
+} from './database.js';
+import { classifyFiling } from './classification.js';
+import { parseParties, splitNames } from './parties.js';
+import { STOP_WORDS } from './parcelLookup.js';
+import { caseTracking as trackingConfig } from './config.js';
+import { daysAgo, today, parseDate, describeRange } from './dates.js';
+import { log } from './logger.js';
+
+export type CaseStatus = 'filed' | 'judgment' | 'sale_scheduled' | 'sold' | 'released';
+
+export const CASE_STATUSES: CaseStatus[] = ['filed', 'judgment', 'sale_scheduled', 'sold', 'released'];
+
+/** Statuses sales can still act on */
+export const ACTIONABLE_STATUSES: CaseStatus[] = ['filed', 'judgment', 'sale_scheduled'];
+
+/** Follow-up document types: the catalog alias searched for, and the status
+ *  a recorded document of that type moves a case to */
+const FOLLOW_UPS: Array<{ alias: string; status: CaseStatus; pattern: RegExp }> = [
+  { alias: 'final_judgment',       status: 'judgment',       pattern: /\bJUDGMENT\b/i },
+  { alias: 'notice_of_sale',       status: 'sale_scheduled', pattern: /^NOTICE OF (?:FORECLOSURE )?SALE\b/i },
+  { alias: 'certificate_of_sale',  status: 'sold',           pattern: /\bCERTIFICATE OF SALE\b/i },
+  { alias: 'certificate_of_title', status: 'sold',           pattern: /\bCERTIFICATE OF TITLE\b/i },
+  { alias: 'release_lis_pendens',  status: 'released',       pattern: /\bRELEASE\b|\bSATISFACTION\b|\bDISCHARGE\b|\bDISMISS|\bWITHDRAW/i },
+];
+
+const STATUS_ORDER: Record<CaseStatus, number> = {
+  filed: 0,
+  judgment: 1,
+  sale_scheduled: 2,
+  sold: 3,
+  released: 3,
+};
+
+// ---------------------------------------------------------------------------
+// States
+// ---------------------------------------------------------------------------
+
+/** The status a document of this type implies — a scraped Final Judgment
+ *  starts out at judgment. Releases are checked first ("SATISFACTION OF
+ *  JUDGMENT" closes a case); anything unrecognized is filed. */
+export function statusForDocumentType(documentType: string): CaseStatus {
+  const release = FOLLOW_UPS.find(f => f.status === 'released')!;
+  if (release.pattern.test(documentType)) return 'released';
+  return FOLLOW_UPS.find(f => f.pattern.test(documentType))?.status ?? 'filed';
+}
+
+/** Where a case moves when a follow-up with `next` status is recorded */
+export function advanceStatus(current: CaseStatus, next: CaseStatus): CaseStatus {
+  if (current === 'sold' || current === 'released') return current;
+  if (next === 'released') return next;
+  return STATUS_ORDER[next] > STATUS_ORDER[current] ? next : current;
+}
+
+/** Releases, satisfactions and dismissals — documents that close a case */
+export function isReleaseDocument(documentType: string): boolean {
+  return statusForDocumentType(documentType) === 'released';
+}
+
+export function isActionable(status: CaseStatus | null | undefined): boolean {
+  return !status || ACTIONABLE_STATUSES.includes(status);
+}
+
+/** Stamp the starting status onto a scraped filing */
+export function withCaseStatus(filing: Filing): Filing {
+  return { ...filing, case_status: statusForDocumentType(filing.document_type) };
+}
+
+// ---------------------------------------------------------------------------
+// Matching follow-ups to filings
+// ---------------------------------------------------------------------------
+
+/** Name words in any order, so "SMITH JOHN A" and "JOHN A SMITH" compare equal */
+function nameKey(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9 ]/g, ' ').split(/\s+/).filter(w => w.length > 1).sort().join(' ');
+}
+
+function legalKeywords(legalDescription: string): string[] {
+  const words = (legalDescription ?? '').toUpperCase().replace(/[^A-Z0-9 ]/g, ' ').split(/\s+/);
+  return [...new Set(words.filter(w => w.length > 1 && !STOP_WORDS.has(w)))];
+}
+
+function caseKey(caseNumber: string | null | undefined): string {
+  return (caseNumber ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function bookPageKey(book: string, page: string): string {
+  return `${Number(book)}/${Number(page)}`;
+}
+
+/** Instruments a follow-up refers to in its legal description:
+ *  "REL LP DOC# 20260012345", "OR BK 10234 PG 5678" */
+export function referencedInstruments(text: string): { document_numbers: string[]; book_pages: string[] } {
+  const upper = (text ?? '').toUpperCase();
+  const documentNumbers = [...upper.matchAll(/\b(\d{4}-?\d{4,})\b/g)].map(m => m[1].replace('-', ''));
+  const bookPages = [...upper.matchAll(/\b(?:BOOK|BK|B)\s*[:#]?\s*(\d+)\s*[,/]?\s*(?:PAGE|PG|P)\s*[:#]?\s*(\d+)/g)]
+    .map(m => bookPageKey(m[1], m[2]));
+  return { document_numbers: [...new Set(documentNumbers)], book_pages: [...new Set(bookPages)] };
+}
+
+function followUpParties(followUp: Filing): string[] {
+  return [...splitNames(followUp.grantor_name), ...splitNames(followUp.grantee_name)];
+}
+
+/** The plaintiff name classification would store for the first of these names */
+function plaintiffKey(names: string): string {
+  return classifyFiling({ document_type: '', grantor_name: names }).normalized_plaintiff ?? '';
+}
+
+/** How a follow-up document is tied to a filing, or null if it isn't */
+export function matchFollowUp(filing: TrackedFiling, followUp: Filing): string | null {
+  if (followUp.document_number === filing.document_number) return null;
+
+  // A follow-up can't be recorded before the filing it follows
+  const filed = parseDate(filing.recording_date);
+  const recorded = parseDate(followUp.recording_date);
+  if (filed && recorded && recorded < filed) return null;
+
+  const caseNumber = caseKey(filing.case_number);
+  if (caseNumber && caseNumber === caseKey(followUp.case_number)) return 'case_number';
+
+  const references = referencedInstruments(followUp.legal_description);
+  if (references.document_numbers.includes(filing.document_number.replace(/\D/g, ''))) return 'document_number';
+  if (filing.book && filing.page && references.book_pages.includes(bookPageKey(filing.book, filing.page))) {
+    return 'book_page';
+  }
+
+  // Judgments and certificates name the defendant owners as a party either way round
+  const grantees = new Set(parseParties(filing.grantee_name, 'grantee')
+    .filter(p => p.kind !== 'placeholder')
+    .map(p => nameKey(p.name)));
+  const followUpNames = followUpParties(followUp).map(nameKey);
+  if (!followUpNames.some(name => grantees.has(name))) return null;
+
+  const keywords = legalKeywords(filing.legal_description);
+  if (keywords.length > 0) {
+    const followUpKeywords = new Set(legalKeywords(followUp.legal_description));
+    const found = keywords.filter(k => followUpKeywords.has(k)).length;
+    if (found / keywords.length >= 0.5) return 'legal_description';
+  }
+
+  const plaintiff = (filing.normalized_plaintiff ?? plaintiffKey(filing.grantor_name)).toUpperCase();
+  if (plaintiff && followUpParties(followUp).some(name => plaintiffKey(name).toUpperCase() === plaintiff)) {
+    return 'plaintiff';
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Tracking run
+// ---------------------------------------------------------------------------
+
+export interface CaseTrackingOptions {
+  county?: string;
+  /** First recording date to search for follow-ups. Defaults to
+   *  CASE_TRACKING_LOOKBACK_DAYS before today. */
+  startDate?: string;
+  /** Last recording date to search. Defaults to today. */
+  endDate?: string;
+}
+
+export interface StatusChange {
+  document_number: string;
+  from: CaseStatus;
+  to: CaseStatus;
+  event_document_number: string;
+  event_document_type: string;
+  matched_by: string;
+}
+
+export interface CaseTrackingResult {
+  success: boolean;
+  county: string;
+  date_searched: string;
+  tracked_filings: number;
+  follow_ups_found: number;
+  events_recorded: number;
+  status_changes: StatusChange[];
+  duration_seconds: number;
+  error: string | null;
+}
+
+/** The recording dates a tracking run searches, with the defaults filled in */
+export function trackingRange(options: CaseTrackingOptions = {}): { startDate: string; endDate: string } {
+  return {
+    startDate: options.startDate || daysAgo(trackingConfig.lookbackDays),
+    endDate: options.endDate || today(),
+  };
+}
+
+/** Record the follow-ups that belong to the given open filings and advance
+ *  their statuses. Expects the database to be open. */
+export function applyFollowUps(
+  county: string,
+  tracked: TrackedFiling[],
+  followUps: Filing[],
+): Pick<CaseTrackingResult, 'events_recorded' | 'status_changes'> {
+  const result: Pick<CaseTrackingResult, 'events_recorded' | 'status_changes'> = { events_recorded: 0, status_changes: [] };
+
+  // Filings stored before tracking existed have no status yet
+  const statuses = new Map<string, CaseStatus>();
+  for (const filing of tracked) {
+    const status = filing.case_status ?? statusForDocumentType(filing.document_type);
+    if (!filing.case_status) saveCaseStatus(filing, status);
+    statuses.set(filing.document_number, status);
+  }
+
+  const byRecordingDate = [...followUps]
+    .sort((a, b) => (parseDate(a.recording_date)?.getTime() ?? 0) - (parseDate(b.recording_date)?.getTime() ?? 0));
+
+  for (const followUp of byRecordingDate) {
+    const next = statusForDocumentType(followUp.document_type);
+    for (const filing of tracked) {
+      const matchedBy = matchFollowUp(filing, followUp);
+      if (!matchedBy) continue;
+
+      const recorded = recordCaseEvent({
+        county,
+        document_number: filing.document_number,
+        event_document_number: followUp.document_number,
+        event_document_type: followUp.document_type,
+        event_recording_date: followUp.recording_date,
+        status: next,
+        matched_by: matchedBy,
+      });
+      if (!recorded) continue;
+      result.events_recorded++;
+
+      const current = statuses.get(filing.document_number)!;
+      const advanced = advanceStatus(current, next);
+      if (advanced !== current) {
+        saveCaseStatus(filing, advanced);
+        statuses.set(filing.document_number, advanced);
+        result.status_changes.push({
+          document_number: filing.document_number,
+          from: current,
+          to: advanced,
+          event_document_number: followUp.document_number,
+          event_document_type: followUp.document_type,
+          matched_by: matchedBy,
+        });
+        log.info(`${filing.document_number}: ${current} → ${advanced} (${followUp.document_type} ${followUp.document_number})`);
+      }
+    }
+  }
+  return result;
+}
+
+/** A stored filing closed by a release recorded in the daily scrape */
+export interface ReleasedFiling {
+  county: string;
+  document_number: string;
+  grantee_name: string;
+  release_document_number: string;
+  release_document_type: string;
+  release_recording_date: string;
+  matched_by: string;
+}
+
+/** Match the releases found by a scrape back to open filings and mark them
+ *  released. Expects the database to be open. */
+export function applyReleases(county: string, releases: Filing[]): ReleasedFiling[] {
+  if (releases.length === 0) return [];
+  const tracked = getTrackedFilings(county);
+  const { status_changes } = applyFollowUps(county, tracked, releases);
+
+  return status_changes
+    .filter(change => change.to === 'released')
+    .map(change => {
+      const filing = tracked.find(f => f.document_number === change.document_number)!;
+      const release = releases.find(r => r.document_number === change.event_document_number)!;
+      return {
+        county,
+        document_number: filing.document_number,
+        grantee_name: filing.grantee_name,
+        release_document_number: release.document_number,
+        release_document_type: release.document_type,
+        release_recording_date: release.recording_date,
+        matched_by: change.matched_by,
+      };
+    });
+}
+
+/** Search one county's records for follow-up documents and advance the
+ *  filings they belong to. Aborting `signal` (the job queue's timeout) stops
+ *  the search; nothing is recorded until it has finished. */
+export async function trackCases(options: CaseTrackingOptions = {}, signal?: AbortSignal): Promise<CaseTrackingResult> {
+  const startedAt = Date.now();
+  const adapter = getCountyAdapter(options.county);
+  const { startDate, endDate } = trackingRange(options);
+
+  initDatabase();
+  try {
+    const tracked = getTrackedFilings(adapter.id);
+    const result: CaseTrackingResult = {
+      success: true,
+      county: adapter.id,
+      date_searched: describeRange(startDate, endDate),
+      tracked_filings: tracked.length,
+      follow_ups_found: 0,
+      events_recorded: 0,
+      status_changes: [],
+      duration_seconds: 0,
+      error: null,
+    };
+    if (tracked.length === 0) {
+      log.info(`No open cases to track in ${adapter.name}`);
+      return result;
+    }
+
+    log.info(`Tracking ${tracked.length} open case(s) in ${adapter.name}, follow-ups recorded ${result.date_searched}`);
+    const { chunks } = await scrapeFilings({
+      county: adapter.id,
+      startDate,
+      endDate,
+      documentTypes: FOLLOW_UPS.map(f => f.alias),
+      enrichDetails: false,
+      archiveDocuments: false,
+      rescanDays: 0, // The lookback already covers late-indexed documents
+    }, undefined, signal);
+    signal?.throwIfAborted();
+
+    const followUps = chunks.flatMap(c => c.filings);
+    const applied = applyFollowUps(adapter.id, tracked, followUps);
+    return {
+      ...result,
+      follow_ups_found: followUps.length,
+      ...applied,
+      duration_seconds: Math.round((Date.now() - startedAt) / 100) / 10,
+    };
+  } finally {
+    closeDatabase();
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * FORECLOSURE CLASSIFICATION
+ *
+ * Tags each filing with what kind of foreclosure it is — a bank foreclosing
+ * a mortgage, an HOA or condo association foreclosing a lien, the county
+ * over taxes or code enforcement — and a normalized plaintiff name, so
+ * "WELLS FARGO BANK, N.A." and "WELLS FARGO BANK NA AS TRUSTEE FOR ..." are
+ * counted as the same lender. The rules live in foreclosureRules.ts.
+ */
+
+import { documentTypeRules, knownPlaintiffs, plaintiffPatterns } from './foreclosureRules.js';
+import { splitNames } from './parties.js';
+import type { Filing } from './database.js';
+
+export type ForeclosureKind = 'mortgage' | 'hoa' | 'condo' | 'tax' | 'code_enforcement' | 'other';
+
+export interface Classification {
+  foreclosure_kind: ForeclosureKind;
+  /** Canonical lender name for known plaintiffs, otherwise the cleaned-up grantor */
+  normalized_plaintiff: string | null;
+}
+
+/** "WELLS FARGO BANK, N.A., AS TRUSTEE FOR ABC TRUST 2006-1" → "WELLS FARGO BANK" */
+export function normalizePlaintiffName(name: string): string {
+  return name.toUpperCase()
+    // Capacity clauses: "AS TRUSTEE FOR ...", "NOT IN ITS INDIVIDUAL CAPACITY ...", "D/B/A ..."
+    .replace(/,?\s+(?:NOT\s+(?:IN\s+ITS\s+)?INDIVIDUALLY|NOT\s+IN\s+ITS\s+INDIVIDUAL\s+CAPACITY|AS\s+(?:OWNER\s+)?TRUSTEE|SOLELY\s+AS|SUCCESSOR\s+(?:BY|IN|TO)|D\/B\/A|F\/K\/A|A\/K\/A)\b.*$/, '')
+    .replace(/[.,]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    // Trailing corporate designations, possibly several ("BANK N A INC")
+    .replace(/(?:\s+(?:INC|LLC|L L C|CORP|CORPORATION|CO|LTD|LP|FSB|F S B|N A|NA))+$/, '')
+    .trim();
+}
+
+/** Classify a filing from its document type and grantor(s) */
+export function classifyFiling(filing: Pick<Filing, 'document_type' | 'grantor_name'>): Classification {
+  const grantors = splitNames(filing.grantor_name).map(g => g.toUpperCase());
+  const known = knownPlaintiffs.find(p => grantors.some(g => p.patterns.some(pattern => pattern.test(g))));
+  const normalizedPlaintiff = known?.name ?? (grantors.length > 0 ? normalizePlaintiffName(grantors[0]) : null);
+
+  const byDocumentType = documentTypeRules.find(rule => rule.pattern.test(filing.document_type));
+  if (byDocumentType) {
+    return { foreclosure_kind: byDocumentType.kind, normalized_plaintiff: normalizedPlaintiff };
+  }
+  if (known) {
+    return { foreclosure_kind: known.kind, normalized_plaintiff: normalizedPlaintiff };
+  }
+
+  for (const { kind, pattern } of plaintiffPatterns) {
+    if (grantors.some(g => pattern.test(g))) {
+      return { foreclosure_kind: kind, normalized_plaintiff: normalizedPlaintiff };
+    }
+  }
+  return { foreclosure_kind: 'other', normalized_plaintiff: normalizedPlaintiff };
+}
+
+/** Stamp the classification onto a scraped filing */
+export function withClassification(filing: Filing): Filing {
+  return { ...filing, ...classifyFiling(filing) };
+}
@@ -0,0 +1,42 @@
+/**
+ * RECLASSIFICATION SCRIPT
+ *
+ * Re-runs the foreclosure classifier over every stored filing — after adding
+ * a lender or association to foreclosureRules.ts, or for filings stored
+ * before classification existed. New filings are classified during each scrape.
+ *
+ * Usage: npm run classify-filings
+ */
+
+import { initDatabase, closeDatabase, getFilingsToClassify, saveClassification } from './database.js';
+import { classifyFiling, type ForeclosureKind } from './classification.js';
+import { log } from './logger.js';
+
+function main(): void {
+  initDatabase();
+  try {
+    const filings = getFilingsToClassify();
+    log.info(`${filings.length} filing(s) to classify`);
+
+    const counts = new Map<ForeclosureKind, number>();
+    for (const filing of filings) {
+      const classification = classifyFiling(filing);
+      saveClassification(filing, classification);
+      counts.set(classification.foreclosure_kind, (counts.get(classification.foreclosure_kind) ?? 0) + 1);
+    }
+
+    for (const [kind, count] of counts) {
+      log.info(`  ${kind.padEnd(18)} ${count}`);
+    }
+    log.success(`Classified ${filings.length} filing(s)`);
+  } finally {
+    closeDatabase();
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  log.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
@@ -29,24 +29,74 @@ export const paths = {
 };
 
 // ---------------------------------------------------------------------------
-// Scraper settings
+// Document types
 // ---------------------------------------------------------------------------
-export const scraper = {
-  /** The starting URL for the Orange County comptroller portal */
-  startUrl: 'https://selfservice.or.occompt.com/ssweb/user/disclaimer',
+export interface DocumentTypeOption {
+  /** The exact option text in the portal's "Document Types" autocomplete */
+  label: string;
+  /** What to type into the autocomplete to bring the option up */
+  search: string;
+}
 
-  /** The home page URL (after accepting disclaimer) */
-  homeUrl: 'https://selfservice.or.occompt.com/ssweb/',
+/** Distress-signal document types we know how to search for, keyed by a short
+ *  alias usable in DOCUMENT_TYPES, the /scrape body and the CLI. A label that
+ *  isn't listed here can still be passed verbatim. */
+export const documentTypeCatalog: Record<string, DocumentTypeOption> = {
+  lis_pendens:           { label: 'Lis Pendens', search: 'lis' },
+  tax_deed_sale:         { label: 'Notice of Tax Deed Sale', search: 'tax deed' },
+  certificate_of_title:  { label: 'Certificate of Title', search: 'certificate of t' },
+  certificate_of_sale:   { label: 'Certificate of Sale', search: 'certificate of s' },
+  final_judgment:        { label: 'Final Judgment', search: 'final j' },
+  notice_of_sale:        { label: 'Notice of Sale', search: 'notice of s' },
+  release_lis_pendens:   { label: 'Release Lis Pendens', search: 'release l' },
+  satisfaction_of_mortgage: { label: 'Satisfaction of Mortgage', search: 'satisfaction of m' },
+  probate:               { label: 'Probate', search: 'probate' },
+  code_enforcement_lien: { label: 'Code Enforcement Lien', search: 'code enf' },
+};
 
-  /** The search form URL */
-  searchUrl: 'https://selfservice.or.occompt.com/ssweb/search/DOCSEARCH2950S1',
+/** Split a comma-separated list ("lis_pendens, final_judgment") into trimmed entries */
+export function parseList(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+// ---------------------------------------------------------------------------
+// Scraper settings
+// ---------------------------------------------------------------------------
+export const scraper = {
+  /** County adapter used when a request doesn't name one (see src/counties/) */
+  defaultCounty: optionalEnv('DEFAULT_COUNTY', 'orange').toLowerCase(),
 
   /** Run browser with visible window (true) or hidden (false) */
   headless: optionalEnv('HEADLESS', 'false') === 'true',
 
-  /** Maximum results pages to scrape per run */
+  /** Document types searched when a request doesn't specify any (aliases or labels) */
+  documentTypes: parseList(optionalEnv('DOCUMENT_TYPES', 'lis_pendens')),
+
+  /** Release/satisfaction document types searched after documentTypes in each
+   *  window (a search of their own), so filings whose case was released are
+   *  closed by the same scrape. "none" = off. */
+  releaseDocumentTypes: parseList(optionalEnv('RELEASE_DOCUMENT_TYPES', 'release_lis_pendens'))
+    .filter(type => type.toLowerCase() !== 'none'),
+
+  /** Open each new filing's document detail page for case number, book/page,
+   *  parcel IDs and attorney (slower: one extra page load per new filing) */
+  enrichDetails: optionalEnv('ENRICH_DETAILS', 'false') === 'true',
+
+  /** Download each new filing's recorded document into data/documents/ */
+  archiveDocuments: optionalEnv('ARCHIVE_DOCUMENTS', 'false') === 'true',
+
+  /** Maximum results pages to read per search window (results beyond this are flagged as truncated) */
   maxPages: parseInt(optionalEnv('MAX_PAGES', '50'), 10),
 
+  /** Longest date range (in days) submitted as a single search. Longer ranges
+   *  (backfills) are split into consecutive windows of this size. 0 = never split. */
+  rangeChunkDays: parseInt(optionalEnv('RANGE_CHUNK_DAYS', '7'), 10),
+
+  /** Business days before the requested start date searched again when a run
+   *  doesn't say (rescan_days / --rescan), so filings the clerk indexes a day or
+   *  two late are still picked up. 0 = off. Scheduled runs use SCHEDULE_RESCAN_BUSINESS_DAYS. */
+  rescanBusinessDays: parseInt(optionalEnv('RESCAN_BUSINESS_DAYS', '0'), 10),
+
   /** Milliseconds to wait between actions (be polite to the server) */
   actionDelay: 1500,
 
@@ -54,6 +104,40 @@ export const scraper = {
   pageTimeout: 60_000,
 };
 
+// ---------------------------------------------------------------------------
+// Parcel lookup (local parcel roll, Florida Statewide Cadastral on ArcGIS)
+// ---------------------------------------------------------------------------
+export const parcelLookup = {
+  /** ArcGIS FeatureServer query endpoint for the statewide parcel layer */
+  arcgisUrl: optionalEnv(
+    'ARCGIS_PARCEL_URL',
+    'https://services9.arcgis.com/Gh9awoU677aKree0/arcgis/rest/services/Florida_Statewide_Cadastral/FeatureServer/0/query',
+  ),
+
+  /** Attributes requested for every parcel */
+  outFields: ['PARCELNO', 'OWN_NAME', 'PHY_ADDR1', 'PHY_CITY', 'PHY_ZIPCD', 'S_LEGAL',
+    ...parseList(optionalEnv('ARCGIS_VALUE_FIELDS', 'JV,AV_NSD,JV_HMSTD'))],
+
+  /** Maximum parcels returned by a surname LIKE query */
+  likeResultLimit: 500,
+
+  /** Milliseconds before an ArcGIS query is abandoned */
+  requestTimeoutMs: 30_000,
+
+  /** Query ArcGIS when the local parcel roll (npm run import-parcels) has no
+   *  match — or hasn't been imported for the county at all */
+  arcgisFallback: optionalEnv('PARCEL_ARCGIS_FALLBACK', 'true') === 'true',
+};
+
+// ---------------------------------------------------------------------------
+// Case tracking (follow-up documents on stored filings)
+// ---------------------------------------------------------------------------
+export const caseTracking = {
+  /** Days of recordings re-searched for follow-up documents when no range is
+   *  given. Runs overlap safely — an event is only recorded once. */
+  lookbackDays: parseInt(optionalEnv('CASE_TRACKING_LOOKBACK_DAYS', '7'), 10),
+};
+
 // ---------------------------------------------------------------------------
 // 2Captcha
 // ---------------------------------------------------------------------------
@@ -75,4 +159,71 @@ export const server = {
    *  Prevents the concurrency lock from getting stuck if the browser hangs.
    *  Default: 5 minutes (CAPTCHA solving + scraping typically takes 1-3 min). */
   scrapeTimeoutMs: parseInt(optionalEnv('SCRAPE_TIMEOUT_MS', '300000'), 10),
+
+  /** Times a scrape job is started before a job interrupted by restarts is
+   *  given up on (see jobQueue.ts) */
+  jobMaxAttempts: parseInt(optionalEnv('JOB_MAX_ATTEMPTS', '2'), 10),
+
+  /** Require an API key (Authorization: Bearer <key>) on every endpoint but
+   *  /health. Keys are managed with `npm run api-keys` (see apiKeys.ts). */
+  authEnabled: optionalEnv('API_AUTH_ENABLED', 'true') === 'true',
+
+  /** Requests per minute allowed per key, unless the key sets its own limit */
+  rateLimitPerMinute: parseInt(optionalEnv('API_RATE_LIMIT_PER_MINUTE', '60'), 10),
+
+  /** Browser origins allowed to call the API (CORS). "*" allows any; empty sends no CORS headers. */
+  corsOrigins: parseList(optionalEnv('CORS_ORIGINS')),
+};
+
+// ---------------------------------------------------------------------------
+// Scrape result callbacks (POST /scrape { callback_url })
+// ---------------------------------------------------------------------------
+export const callbacks = {
+  /** Where finished jobs are POSTed when the request doesn't name a callback_url */
+  defaultUrl: optionalEnv('CALLBACK_URL'),
+
+  /** HMAC-SHA256 key for the X-Signature header. Unsigned when empty. */
+  secret: optionalEnv('CALLBACK_SECRET'),
+
+  /** Delivery attempts before giving up; the wait doubles after each failure */
+  maxAttempts: parseInt(optionalEnv('CALLBACK_MAX_ATTEMPTS', '5'), 10),
+  initialDelayMs: parseInt(optionalEnv('CALLBACK_RETRY_DELAY_MS', '5000'), 10),
+  requestTimeoutMs: 15_000,
+};
+
+// ---------------------------------------------------------------------------
+// Built-in scheduler (see scheduler.ts)
+// ---------------------------------------------------------------------------
+export type CatchUpPolicy = 'backfill' | 'skip';
+
+export const schedule = {
+  /** Queue scrapes on the cron schedule below. `npm run schedule` turns it on too. */
+  enabled: optionalEnv('SCHEDULE_ENABLED', 'false') === 'true',
+
+  /** IANA time zone the cron expressions are read in */
+  timeZone: optionalEnv('SCHEDULE_TIMEZONE', 'America/New_York'),
+
+  /** Cron expressions, separated by ";" (commas belong to cron itself).
+   *  Default: every 10 minutes from 8:00am to 5:50pm, Monday-Friday. */
+  crons: optionalEnv('SCHEDULE_CRONS', '*/10 8-17 * * 1-5').split(';').map(c => c.trim()).filter(Boolean),
+
+  /** Cron expressions (";"-separated) for case-tracking runs, which re-search
+   *  CASE_TRACKING_LOOKBACK_DAYS of recordings for judgments, sales and
+   *  releases. Default: 6:00pm Monday-Friday, after the day's scrapes. "off" = never. */
+  caseTrackingCrons: optionalEnv('SCHEDULE_CASE_TRACKING_CRONS', '0 18 * * 1-5').split(';').map(c => c.trim())
+    .filter(c => c && c !== 'off'),
+
+  /** What to do about runs missed while the service was down: "backfill"
+   *  queues one scrape covering the missed recording dates, "skip" drops them */
+  catchUp: optionalEnv('SCHEDULE_CATCH_UP', 'backfill') as CatchUpPolicy,
+
+  /** Missed runs older than this many days aren't caught up */
+  catchUpMaxDays: parseInt(optionalEnv('SCHEDULE_CATCH_UP_MAX_DAYS', '5'), 10),
+
+  /** Business days each scheduled scrape re-searches before its day, for
+   *  filings indexed late (see RESCAN_BUSINESS_DAYS). 0 = off. */
+  rescanBusinessDays: parseInt(optionalEnv('SCHEDULE_RESCAN_BUSINESS_DAYS', '2'), 10),
+
+  /** One-off closure dates on top of holidayRules.ts (comma-separated) */
+  extraClosures: parseList(optionalEnv('SCHEDULE_EXTRA_CLOSURES')),
 };
@@ -54,10 +54,10 @@ const fns = {
 // Exported helpers — called from src/index.ts and src/server.ts
 // ---------------------------------------------------------------------------
 
-/** Create a "running" record in Convex. Returns the document ID. */
-export async function startRun(): Promise<ConvexRunId> {
+/** Create a "running" record in Convex for a county. Returns the document ID. */
+export async function startRun(county: string): Promise<ConvexRunId> {
   const client = getClient();
-  return (await client.mutation(fns.startRun, {})) as ConvexRunId;
+  return (await client.mutation(fns.startRun, { county })) as ConvexRunId;
 }
 
 /** Finalize a run record with results. */
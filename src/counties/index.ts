@@ -0,0 +1,35 @@
+/**
+ * COUNTY REGISTRY
+ *
+ * Maps the `county` field on /scrape (and on every filing) to the adapter that
+ * knows how to drive that county's official records portal.
+ */
+
+import { scraper as scraperConfig } from '../config.js';
+import { createTylerAdapter } from './tyler.js';
+import { tylerCounties } from './tylerCounties.js';
+import type { CountyAdapter } from './types.js';
+
+export type { CountyAdapter, SearchRequest, ResultsScrape, ScrapedFiling } from './types.js';
+export type { TylerCountyConfig } from './tyler.js';
+
+const adapters: Record<string, CountyAdapter> = {};
+for (const county of tylerCounties) {
+  adapters[county.id] = createTylerAdapter(county);
+}
+
+/** Look up an adapter by id (case-insensitive). Defaults to DEFAULT_COUNTY.
+ *  Throws with the list of supported counties if the id is unknown. */
+export function getCountyAdapter(county?: string): CountyAdapter {
+  const id = (county || scraperConfig.defaultCounty).trim().toLowerCase();
+  const adapter = adapters[id];
+  if (!adapter) {
+    throw new Error(`Unknown county "${county}". Supported counties: ${listCounties().join(', ')}`);
+  }
+  return adapter;
+}
+
+/** Ids of every registered county */
+export function listCounties(): string[] {
+  return Object.keys(adapters);
+}
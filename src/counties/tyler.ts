@@ -0,0 +1,691 @@
+/**
+ * TYLER TECHNOLOGIES "SSWEB" ADAPTER
+ *
+ * Many Florida clerks run the same Tyler self-service official records
+ * product (Orange, Seminole, Osceola, Lake, ...). The flow is identical on
+ * all of them: disclaimer (often behind a reCAPTCHA) → search form picked by
+ * its search ID → date + document type search → card-based results list.
+ *
+ * createTylerAdapter() turns a TylerCountyConfig into a CountyAdapter, so
+ * onboarding another Tyler county is just an entry in tylerCounties.ts.
+ */
+
+import fs from 'fs';
+import type { Page } from 'playwright';
+import { scraper as scraperConfig, documentTypeCatalog, type DocumentTypeOption } from '../config.js';
+import { log } from '../logger.js';
+import { solveCaptcha, getCaptchaInjectionScript } from '../captcha.js';
+import { screenshot, delay } from '../browser.js';
+import { describeRange, type DateWindow } from '../dates.js';
+import type { Filing, FilingDetails } from '../database.js';
+import type { DocumentFile } from '../documentArchive.js';
+import type { CountyAdapter, SearchRequest, ResultsScrape, ScrapedFiling } from './types.js';
+
+// ---------------------------------------------------------------------------
+// Per-county configuration
+// ---------------------------------------------------------------------------
+export interface TylerCountyConfig {
+  /** Registry key — e.g. "orange" */
+  id: string;
+  /** Display name — e.g. "Orange County" */
+  name: string;
+  /** Florida DOR county number */
+  countyNumber: number;
+
+  /** Portal root, without a trailing slash — e.g. https://selfservice.or.occompt.com/ssweb */
+  baseUrl: string;
+  /** Search form ID from the search URL — e.g. DOCSEARCH2950S1 */
+  searchId: string;
+  /** Home-page card that opens the search form. When set, the first search of a
+   *  session clicks it like a person would; otherwise the form URL is opened directly. */
+  searchCardText?: string;
+
+  /** How the disclaimer is guarded:
+   *   - "recaptcha": reCAPTCHA v2 checkbox (solved via 2Captcha), then the accept button
+   *   - "click":     just the accept button
+   *   - "none":      no disclaimer, start at the portal home page */
+  disclaimer: 'recaptcha' | 'click' | 'none';
+  /** Text of the disclaimer's accept button (default "I Accept") */
+  acceptButtonText?: string;
+
+  /** Document type labels that differ from the shared catalog, keyed by alias */
+  documentTypes?: Record<string, DocumentTypeOption>;
+}
+
+function disclaimerUrl(county: TylerCountyConfig): string {
+  return `${county.baseUrl}/user/disclaimer`;
+}
+
+function searchUrl(county: TylerCountyConfig): string {
+  return `${county.baseUrl}/search/${county.searchId}`;
+}
+
+// ---------------------------------------------------------------------------
+// Step 1: Navigate to the disclaimer page
+// ---------------------------------------------------------------------------
+
+async function navigate(county: TylerCountyConfig, page: Page): Promise<void> {
+  log.step(1, `Navigating to ${county.name} official records portal...`);
+
+  const startUrl = county.disclaimer === 'none' ? `${county.baseUrl}/` : disclaimerUrl(county);
+  await page.goto(startUrl, { waitUntil: 'networkidle' });
+  await delay(2000); // Let the page fully settle
+  await screenshot(page, '01-disclaimer-page');
+}
+
+// ---------------------------------------------------------------------------
+// Step 2: Solve the CAPTCHA and accept the disclaimer
+// ---------------------------------------------------------------------------
+
+async function acceptDisclaimer(county: TylerCountyConfig, page: Page): Promise<void> {
+  if (county.disclaimer === 'none') return;
+  if (county.disclaimer === 'recaptcha') {
+    await solveDisclaimerCaptcha(county, page);
+  }
+
+  // --- Click "I Accept" button ---
+  const buttonText = county.acceptButtonText ?? 'I Accept';
+  log.step(1, `Clicking "${buttonText}" button...`);
+
+  // Wait for the button to be enabled (it's disabled until CAPTCHA is solved)
+  const acceptButton = page.getByRole('button', { name: buttonText });
+  await acceptButton.waitFor({ state: 'visible', timeout: 10_000 });
+  await delay(1000); // Brief pause like a human would
+  await acceptButton.click();
+  await page.waitForLoadState('networkidle');
+  await delay(2000); // Let the next page fully load
+  await screenshot(page, '02-after-accept');
+
+  log.success('Disclaimer accepted');
+}
+
+async function solveDisclaimerCaptcha(county: TylerCountyConfig, page: Page): Promise<void> {
+  // --- Solve reCAPTCHA v2 checkbox ---
+  log.step(1, 'Waiting for reCAPTCHA to load...');
+
+  // The reCAPTCHA widget takes a few seconds to load after the page.
+  // Wait for the iframe to appear, which signals the widget is ready.
+  try {
+    await page.waitForSelector(
+      'iframe[src*="recaptcha"], [data-sitekey], .g-recaptcha',
+      { timeout: 15_000 }
+    );
+    log.info('reCAPTCHA widget detected on page');
+  } catch {
+    log.warn('reCAPTCHA iframe not found after 15s — may not be present');
+  }
+
+  // Extra wait for the reCAPTCHA to fully initialize its JavaScript
+  await delay(3000);
+
+  // The site has a reCAPTCHA v2 "I'm not a robot" checkbox.
+  // We find the sitekey from the page and send it to 2Captcha.
+  const siteKey = await page.evaluate(() => {
+    const el = document.querySelector('[data-sitekey]');
+    return el?.getAttribute('data-sitekey') || null;
+  });
+
+  if (!siteKey) {
+    log.warn('No reCAPTCHA sitekey found — may not be present or page structure changed');
+    return;
+  }
+
+  log.info(`reCAPTCHA found (sitekey: ${siteKey.substring(0, 10)}...), solving via 2Captcha...`);
+
+  // Try solving the CAPTCHA up to 2 times (2Captcha uses real humans, can be slow)
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    try {
+      if (attempt > 1) log.info(`CAPTCHA retry attempt ${attempt}...`);
+      const result = await solveCaptcha(siteKey, disclaimerUrl(county));
+
+      // Inject the solved token into the page
+      await page.evaluate(getCaptchaInjectionScript(result.token));
+      log.success(`CAPTCHA solved on attempt ${attempt} (cost: $${result.costUsd})`);
+      break;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      log.warn(`CAPTCHA attempt ${attempt} failed: ${msg}`);
+      if (attempt === 2) throw err;
+      log.info('Waiting 5 seconds before retrying...');
+      await delay(5000);
+    }
+  }
+
+  await delay(2000); // Let the page process the token
+}
+
+// ---------------------------------------------------------------------------
+// Step 3a: Navigate to the search form
+// ---------------------------------------------------------------------------
+
+async function navigateToSearch(county: TylerCountyConfig, page: Page, firstSearch: boolean): Promise<void> {
+  if (!firstSearch || !county.searchCardText) {
+    // Later searches in the same session (or portals without a home-page card):
+    // the disclaimer session is still valid, so go straight to the form.
+    if (firstSearch) log.step(2, `Opening search form ${county.searchId}...`);
+    await page.goto(searchUrl(county), { waitUntil: 'networkidle' });
+    await page.waitForSelector('input[placeholder="mm/dd/yyyy"]', { timeout: 15_000 });
+    await delay(2000);
+    if (firstSearch) await screenshot(page, '03-search-page');
+    return;
+  }
+
+  log.step(2, `Navigating to ${county.searchCardText}...`);
+
+  // The ssweb home page has card-style boxes, one per search. On Orange the
+  // "Basic Official Records Search" card (subtitle "Search by Name, Date or
+  // Document Number") links to ssweb/search/DOCSEARCH2950S1.
+
+  // Wait for the home page content to fully render
+  await page.waitForSelector(`text=${county.searchCardText}`, { timeout: 15_000 });
+  await delay(1500);
+
+  await page.getByText(county.searchCardText).click();
+  await page.waitForLoadState('networkidle');
+  await delay(2000); // Let the search form fully render
+
+  // Wait for the search form to actually appear
+  await page.waitForSelector('input[placeholder="mm/dd/yyyy"]', { timeout: 15_000 });
+  await screenshot(page, '03-search-page');
+
+  log.success('Search page loaded');
+}
+
+// ---------------------------------------------------------------------------
+// Step 3b: Fill out the search form
+// ---------------------------------------------------------------------------
+
+/** Pick one option in the "Document Types" autocomplete */
+async function selectDocumentType(page: Page, docType: DocumentTypeOption): Promise<void> {
+  log.info(`Selecting document type: ${docType.label}`);
+
+  // From screenshots: the Document Types field is a searchable input.
+  // It has a magnifying glass icon and when you click it shows a dropdown
+  // of all document types. When you type "lis" it filters to show "Lis Pendens".
+  // The error log revealed the exact selector: getByRole('textbox', { name: 'Document Types' })
+  // This targets the visible text input (id="field_selfservice_documentTypes"), not the hidden one.
+  const docTypeField = page.getByRole('textbox', { name: 'Document Types' });
+  await docTypeField.click();
+  await delay(1000); // Let the dropdown initialize
+  await docTypeField.pressSequentially(docType.search, { delay: 150 });
+  await delay(2000); // Wait for autocomplete/filter to process
+
+  // From screenshot: the dropdown shows two items after typing "lis":
+  //   1. The typed text echo (not clickable)
+  //   2. The actual "Lis Pendens" option (bottom one — this is what we want)
+  // Use .last() to always target the real selectable option at the bottom.
+  // Match the whole label so "Lis Pendens" doesn't also hit "Release of Lis Pendens".
+  const exactLabel = new RegExp(`^\\s*${escapeRegExp(docType.label)}\\s*$`, 'i');
+  await page.locator('li, .option, [role="option"]').filter({ hasText: exactLabel }).last().click();
+  await delay(1000); // Let the tag/chip appear
+
+  // Verify the chip/tag appeared in the field
+  const selectedTag = page.getByText(docType.label, { exact: true }).first();
+  if (await selectedTag.isVisible().catch(() => false)) {
+    log.success(`Document type "${docType.label}" selected`);
+  } else {
+    log.warn(`Could not confirm "${docType.label}" was selected — continuing anyway`);
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+async function fillSearchForm(page: Page, window: DateWindow, documentTypes: DocumentTypeOption[]): Promise<string> {
+  log.step(3, 'Filling out search form...');
+
+  const rangeLabel = describeRange(window.start, window.end);
+  log.info(`Searching for filings recorded: ${rangeLabel}`);
+
+  // --- Recording Date Start ---
+  log.info('Setting Recording Date Start...');
+
+  // Type the date directly into the input field (simpler than the calendar picker)
+  const dateInputs = page.locator('input[placeholder="mm/dd/yyyy"]');
+  const startDateInput = dateInputs.nth(0);
+  const endDateInput = dateInputs.nth(1);
+
+  await startDateInput.click();
+  await delay(500);
+  // Triple-click to select any existing text, then type over it
+  await startDateInput.click({ clickCount: 3 });
+  await startDateInput.pressSequentially(window.start, { delay: 50 });
+  // Press Tab to move focus out and confirm the value
+  await startDateInput.press('Tab');
+  await delay(1000);
+
+  log.info('Recording Date Start set');
+
+  // --- Recording Date End ---
+  log.info('Setting Recording Date End...');
+
+  await endDateInput.click();
+  await delay(500);
+  await endDateInput.click({ clickCount: 3 });
+  await endDateInput.pressSequentially(window.end, { delay: 50 });
+  await endDateInput.press('Tab');
+  await delay(1000);
+
+  log.info('Recording Date End set');
+
+  // --- Document Types ---
+  for (const docType of documentTypes) {
+    await selectDocumentType(page, docType);
+  }
+
+  await screenshot(page, '04-form-filled');
+
+  // --- Click Search ---
+  log.step(3, 'Submitting search...');
+
+  // From screenshot: "Search" button with magnifying glass icon, bottom-right of form
+  await page.getByRole('button', { name: 'Search', exact: true }).click();
+  await page.waitForLoadState('networkidle');
+  await delay(3000); // Give results time to fully render
+  await screenshot(page, '05-results');
+
+  log.success('Search submitted');
+  return rangeLabel;
+}
+
+// ---------------------------------------------------------------------------
+// Step 3: Search — open the form, fill it in, submit
+// ---------------------------------------------------------------------------
+
+async function search(county: TylerCountyConfig, page: Page, request: SearchRequest): Promise<void> {
+  await navigateToSearch(county, page, request.firstSearch);
+  await fillSearchForm(page, request.window, request.documentTypes);
+}
+
+// ---------------------------------------------------------------------------
+// Step 4: Scrape results — card-based layout
+// ---------------------------------------------------------------------------
+// The results page uses a card layout, NOT a table. Each result looks like:
+//
+//   20260071189 • Lis Pendens • 02/05/2026 01:31 PM
+//   Grantor                Grantee              Legal              BookPage
+//   RIDGEMOORE HOA INC     DE OLIVEIRA ANDREA C Lot: 7 RIDGE...
+//
+// We scrape by finding each result card and extracting the text content.
+// ---------------------------------------------------------------------------
+
+/** Parse "Showing page 1 of 3 for 27 Total Results" from the results header */
+async function readResultsHeader(page: Page): Promise<{ page: number | null; pageCount: number | null; total: number | null }> {
+  const headerText = await page.getByText('Total Results').first().textContent().catch(() => '') || '';
+  const pageMatch = headerText.match(/page\s+(\d+)\s+of\s+(\d+)/i);
+  const totalMatch = headerText.match(/(\d+)\s*Total Results/i);
+  return {
+    page: pageMatch ? parseInt(pageMatch[1], 10) : null,
+    pageCount: pageMatch ? parseInt(pageMatch[2], 10) : null,
+    total: totalMatch ? parseInt(totalMatch[1], 10) : null,
+  };
+}
+
+/** Click the results "next page" control. Returns false when there isn't one
+ *  (or it's disabled), i.e. we're on the last page. */
+async function goToNextPage(page: Page, currentPage: number): Promise<boolean> {
+  // Tyler ssweb renders a pager under the results. Depending on the version
+  // the next control is an aria-labelled link, a "Next" button, or a "›" arrow.
+  // Text matches stay inside the pager: a stray "Next" elsewhere on the page
+  // would otherwise be clicked, and without a page number in the header
+  // nothing would notice.
+  const nextControl = page.locator(
+    'a[aria-label*="Next" i], button[aria-label*="Next" i], ' +
+    '.pagination .next a, .pagination a:has-text("›"), .pagination a:has-text("»"), ' +
+    '.pagination a:has-text("Next"), .pagination button:has-text("Next"), ' +
+    'nav[aria-label*="pag" i] a:has-text("Next"), nav[aria-label*="pag" i] button:has-text("Next")'
+  ).first();
+
+  if (!(await nextControl.isVisible().catch(() => false))) return false;
+
+  const disabled = await nextControl.evaluate(el =>
+    el.hasAttribute('disabled') ||
+    el.getAttribute('aria-disabled') === 'true' ||
+    !!el.closest('.disabled')
+  ).catch(() => true);
+  if (disabled) return false;
+
+  await nextControl.click();
+  await page.waitForLoadState('networkidle');
+  await delay(2000); // Let the next page of cards render
+
+  // Confirm the pager actually moved — otherwise we'd re-read the same page forever
+  const header = await readResultsHeader(page);
+  if (header.page !== null && header.page <= currentPage) {
+    log.warn(`Clicked next page but header still says page ${header.page} — stopping pagination`);
+    return false;
+  }
+  return true;
+}
+
+async function parseResults(page: Page, request: SearchRequest): Promise<ResultsScrape> {
+  log.step(4, 'Scraping results...');
+
+  // Check if there are any results at all
+  const noResults = await page.getByText('No results found').isVisible().catch(() => false);
+  if (noResults) {
+    log.info('No results found for this date range');
+    return { filings: [], total_reported: 0, pages_scraped: 0, truncated: false };
+  }
+
+  // Get the total result count from the header text
+  // Format: "Showing page 1 of 1 for 9 Total Results"
+  const header = await readResultsHeader(page);
+  if (header.total !== null) {
+    log.info(`Results page says: ${header.total} total results across ${header.pageCount ?? '?'} page(s)`);
+  }
+
+  // Walk the pages, keeping the first occurrence of each document number
+  // (the same card can appear on two pages if the list shifts underneath us).
+  const seen = new Map<string, ScrapedFiling>();
+  let pagesScraped = 0;
+  let truncated = false;
+
+  while (true) {
+    pagesScraped++;
+    const pageFilings = await extractResultCards(page, request.documentTypes.map(t => t.label));
+    for (const filing of pageFilings) {
+      if (!seen.has(filing.document_number)) seen.set(filing.document_number, filing);
+    }
+    log.info(`Page ${pagesScraped}: ${pageFilings.length} card(s), ${seen.size} unique so far`);
+
+    const lastKnownPage = header.pageCount !== null && pagesScraped >= header.pageCount;
+    if (lastKnownPage) break;
+
+    if (pagesScraped >= scraperConfig.maxPages) {
+      // Only truncated if there really was another page to read
+      truncated = header.pageCount !== null
+        ? header.pageCount > pagesScraped
+        : await goToNextPage(page, pagesScraped);
+      if (truncated) {
+        log.warn(`Stopped after MAX_PAGES=${scraperConfig.maxPages} — more result pages were left unread`);
+      }
+      break;
+    }
+
+    if (!(await goToNextPage(page, pagesScraped))) break;
+  }
+
+  const filings = [...seen.values()];
+
+  log.success(`Scraped ${filings.length} filing(s) from ${pagesScraped} results page(s)`);
+
+  if (header.total !== null && header.total !== filings.length) {
+    log.warn(`Count mismatch: site reports ${header.total} total results but ${filings.length} were scraped`);
+  }
+
+  // Log first result as a sample for verification
+  if (filings.length > 0) {
+    log.info('Sample result:', filings[0]);
+  }
+
+  return { filings, total_reported: header.total, pages_scraped: pagesScraped, truncated };
+}
+
+/** Extract every result card on the current results page */
+async function extractResultCards(page: Page, searchedLabels: string[]): Promise<ScrapedFiling[]> {
+  // Scrape all result cards from the page.
+  // Each card's full text contains the doc number, type, date, and party names.
+  // We use page.evaluate() to extract structured data from the DOM in one pass.
+  const filings = await page.evaluate((labels) => {
+    const results: Array<{
+      document_number: string;
+      document_type: string;
+      recording_date: string;
+      grantor_name: string;
+      grantee_name: string;
+      legal_description: string;
+      detail_url: string | null;
+    }> = [];
+
+    // Strategy 1: Look for result card containers.
+    // Tyler Tech ssweb apps typically wrap each result in a repeated element
+    // with a document number as a prominent header or link.
+
+    // Find all elements that contain a document number pattern (11-digit number)
+    // The header format is: "20260071189 • Lis Pendens • 02/05/2026 01:31 PM"
+    const allElements = document.querySelectorAll(
+      // Common card containers in Tyler Tech apps
+      '.search-result, .result-card, .document-card, ' +
+      // Angular component selectors
+      '[class*="result"], [class*="record"], [class*="document-row"], ' +
+      // Generic card/list patterns
+      '.card, .list-item, .row-item'
+    );
+
+    // If we found card containers, extract data from each
+    if (allElements.length > 0) {
+      for (const card of allElements) {
+        const text = card.textContent || '';
+
+        // Look for document number pattern: 11+ digits
+        const docMatch = text.match(/(\d{11,})/);
+        if (!docMatch) continue;
+
+        // Look for date pattern: MM/DD/YYYY
+        const dateMatch = text.match(/(\d{1,2}\/\d{1,2}\/\d{4})/);
+
+        // The document type sits between the bullets in the card header:
+        // "20260071189 • Lis Pendens • 02/05/2026". If the header can't be read
+        // and only one type was searched, it can only be that one.
+        const typeMatch = text.match(/\d{11,}\s*[•·]\s*([^•·\n]+?)\s*[•·]\s*\d{1,2}\/\d{1,2}\/\d{4}/);
+        const documentType = typeMatch?.[1]?.trim() || (labels.length === 1 ? labels[0] : '');
+
+        // Look for Grantor/Grantee sections
+        const grantorSection = card.querySelector('[class*="grantor"], [data-label*="Grantor"]');
+        const granteeSection = card.querySelector('[class*="grantee"], [data-label*="Grantee"]');
+        const legalSection = card.querySelector('[class*="legal"], [data-label*="Legal"]');
+
+        const grantorText = grantorSection?.textContent?.replace(/Grantor\s*(\(\d+\))?/i, '').trim() || '';
+        const granteeText = granteeSection?.textContent?.replace(/Grantee\s*(\(\d+\))?/i, '').trim() || '';
+        const legalText = legalSection?.textContent?.replace(/Legal/i, '').trim() || '';
+
+        // The document number in the card header links to the detail page
+        const detailLink = card.querySelector<HTMLAnchorElement>('a[href*="/document/"], a[href*="/doc/"]');
+
+        results.push({
+          document_number: docMatch[1],
+          document_type: documentType,
+          recording_date: dateMatch ? dateMatch[1] : '',
+          grantor_name: grantorText,
+          grantee_name: granteeText,
+          legal_description: legalText,
+          detail_url: detailLink?.href || null,
+        });
+      }
+    }
+
+    // Strategy 2: If strategy 1 found nothing, try parsing the full page text
+    // by looking for the repeating pattern of document numbers
+    if (results.length === 0) {
+      const bodyText = document.body.innerText;
+      // Match lines that start with an 11-digit number followed by bullet separators
+      const cardPattern = /(\d{11,})\s*[•·]\s*([^•·\n]+?)\s*[•·]\s*(\d{1,2}\/\d{1,2}\/\d{4}[^]*?)(?=\d{11,}\s*[•·]|$)/g;
+      let match;
+
+      while ((match = cardPattern.exec(bodyText)) !== null) {
+        const cardText = match[3];
+
+        // Extract Grantor text (everything between "Grantor" label and "Grantee" label)
+        const grantorMatch = cardText.match(/Grantor(?:\s*\(\d+\))?\s+([\s\S]*?)(?=Grantee)/i);
+        const granteeMatch = cardText.match(/Grantee(?:\s*\(\d+\))?\s+([\s\S]*?)(?=Legal)/i);
+        const legalMatch = cardText.match(/Legal\s+([\s\S]*?)(?=BookPage|$)/i);
+
+        results.push({
+          document_number: match[1],
+          document_type: match[2],
+          recording_date: match[3].match(/(\d{1,2}\/\d{1,2}\/\d{4})/)?.[1] || '',
+          grantor_name: grantorMatch?.[1]?.trim() || '',
+          grantee_name: granteeMatch?.[1]?.trim() || '',
+          legal_description: legalMatch?.[1]?.trim() || '',
+          detail_url: null,
+        });
+      }
+    }
+
+    return results;
+  }, searchedLabels);
+
+  return filings;
+}
+
+// ---------------------------------------------------------------------------
+// Step 5 (optional): Document detail page enrichment
+// ---------------------------------------------------------------------------
+// The detail page lists labelled fields the result card doesn't show. The
+// exact markup varies between ssweb versions, so we read the page's text and
+// look for the labels rather than relying on CSS classes:
+//
+//   Case Number      2026-CA-001234-O
+//   Book/Page        10862 / 1234
+//   Parcel ID        29-22-28-8850-03-070
+//   Return To        SMITH & JONES PA
+// ---------------------------------------------------------------------------
+
+/** Open a filing's detail page in a separate tab (so the results page and its
+ *  pagination are left alone), run `read` on it, and close the tab. */
+async function withDetailPage<T>(page: Page, filing: Filing, read: (detailPage: Page) => Promise<T>): Promise<T> {
+  if (!filing.detail_url) {
+    throw new Error(`No detail page link for document ${filing.document_number}`);
+  }
+
+  const detailPage = await page.context().newPage();
+  try {
+    await detailPage.goto(filing.detail_url, { waitUntil: 'networkidle' });
+    await delay(1500);
+    return await read(detailPage);
+  } finally {
+    await detailPage.close();
+  }
+}
+
+async function fetchDetails(page: Page, filing: Filing): Promise<FilingDetails> {
+  return withDetailPage(page, filing, async (detailPage) => {
+    const text = await detailPage.evaluate(() => document.body.innerText);
+    return parseDetailText(text);
+  });
+}
+
+/** Value following a label on the same line ("Case Number: X", "Case Number\tX")
+ *  or on the next line ("Case Number\nX"). */
+function labelledValue(text: string, label: RegExp): string | null {
+  const match = text.match(new RegExp(`(?:^|\\n)\\s*(?:${label.source})\\s*[:#]?[ \\t]*(?:\\n\\s*)?([^\\n]+)`, 'i'));
+  const value = match?.[1]?.trim();
+  return value ? value : null;
+}
+
+/** Pull the enrichment fields out of a detail page's text. Exported so the
+ *  parsing can be checked against saved page text without a browser. */
+export function parseDetailText(text: string): FilingDetails {
+  // Florida circuit civil case numbers look like 2026-CA-001234-O (the
+  // separators and trailing division letter vary by county)
+  const caseLabelled = labelledValue(text, /case\s*(?:number|no\.?|#)/);
+  const caseNumber =
+    caseLabelled?.match(/\d{2,4}[- ]?[A-Z]{2}[- ]?\d{3,7}(?:[- ]?[A-Z0-9]+)*/i)?.[0] ??
+    text.match(/\b(?:19|20)\d{2}-?(?:CA|CC|CP|DR|TD)-?\d{3,7}(?:-[A-Z0-9]+)*\b/i)?.[0] ??
+    caseLabelled;
+
+  // "Book/Page 10862 / 1234", or separate "Book 10862" and "Page 1234" fields
+  let book: string | null = null;
+  let pageNumber: string | null = null;
+  const bookPage = labelledValue(text, /book\s*\/?\s*page/)?.match(/(\d+)\s*[\/-]\s*(\d+)/);
+  if (bookPage) {
+    [book, pageNumber] = [bookPage[1], bookPage[2]];
+  } else {
+    book = labelledValue(text, /book/)?.match(/^\d+/)?.[0] ?? null;
+    pageNumber = labelledValue(text, /page/)?.match(/^\d+/)?.[0] ?? null;
+  }
+
+  // Parcel references: dashed (29-22-28-8850-03-070) or solid 15+ digit IDs
+  // next to a "Parcel" label. A document can reference several.
+  const parcelIds = new Set<string>();
+  const parcelPattern = /parcel\s*(?:id|number|no\.?|#)?\s*[:#]?\s*((?:\d{2}-){3}\d{4}-\d{2}-\d{3}|\d{15,})/gi;
+  for (const match of text.matchAll(parcelPattern)) {
+    parcelIds.add(match[1]);
+  }
+
+  // The plaintiff's attorney is whoever prepared the document / gets it back
+  const plaintiffAttorney =
+    labelledValue(text, /(?:plaintiff'?s?\s*)?attorney/) ??
+    labelledValue(text, /prepared\s*by/) ??
+    labelledValue(text, /return\s*(?:to|address)/);
+
+  return {
+    case_number: caseNumber,
+    book,
+    page: pageNumber,
+    parcel_ids: [...parcelIds],
+    plaintiff_attorney: plaintiffAttorney,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Step 6 (optional): Download the recorded document
+// ---------------------------------------------------------------------------
+// When a portal lets anonymous users see images, the detail page has a link
+// straight to the PDF/image, or a "View Document"/"Download" button that
+// triggers a browser download. Many clerks put images behind a paid login —
+// then there's no link (or it leads to a login page) and we return null.
+// ---------------------------------------------------------------------------
+
+async function downloadDocument(page: Page, filing: Filing): Promise<DocumentFile | null> {
+  return withDetailPage(page, filing, async (detailPage) => {
+    const href = await detailPage.evaluate(() => {
+      const link = document.querySelector<HTMLAnchorElement>(
+        'a[href$=".pdf" i], a[href*="/image" i], a[href*="download" i], a[href*="viewdocument" i]'
+      );
+      return link?.href || null;
+    });
+
+    if (href) {
+      // The request shares the browser context's cookies, so the disclaimer
+      // session carries over
+      const response = await detailPage.request.get(href);
+      if (!response.ok()) {
+        throw new Error(`Document download failed: HTTP ${response.status()}`);
+      }
+      const contentType = response.headers()['content-type'] || 'application/octet-stream';
+      if (contentType.includes('text/html')) {
+        log.warn(`Document link for ${filing.document_number} led to a web page, not a file — likely a login wall`);
+        return null;
+      }
+      return { data: await response.body(), content_type: contentType };
+    }
+
+    const button = detailPage.getByRole('button', { name: /view document|download|view image/i }).first();
+    if (!(await button.isVisible().catch(() => false))) return null;
+
+    const [download] = await Promise.all([
+      detailPage.waitForEvent('download', { timeout: 30_000 }),
+      button.click(),
+    ]);
+    const filePath = await download.path();
+    const data = await fs.promises.readFile(filePath);
+    const filename = download.suggestedFilename().toLowerCase();
+    const contentType =
+      filename.endsWith('.pdf') ? 'application/pdf' :
+      /\.tiff?$/.test(filename) ? 'image/tiff' :
+      'application/octet-stream';
+    return { data, content_type: contentType };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Adapter factory
+// ---------------------------------------------------------------------------
+
+export function createTylerAdapter(county: TylerCountyConfig): CountyAdapter {
+  return {
+    id: county.id,
+    name: county.name,
+    countyNumber: county.countyNumber,
+    documentTypes: { ...documentTypeCatalog, ...county.documentTypes },
+    navigate: (page) => navigate(county, page),
+    acceptDisclaimer: (page) => acceptDisclaimer(county, page),
+    search: (page, request) => search(county, page, request),
+    parseResults,
+    fetchDetails,
+    downloadDocument,
+  };
+}
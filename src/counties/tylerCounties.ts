@@ -0,0 +1,27 @@
+/**
+ * TYLER SSWEB COUNTIES
+ *
+ * One entry per county whose clerk runs the Tyler Technologies "ssweb"
+ * official records portal. Adding a county here is all it takes to make it
+ * available as `county` on /scrape and the CLI.
+ *
+ * To onboard a county: open its portal, note the base URL (everything up to
+ * and including /ssweb), accept the disclaimer, open the official records
+ * search and copy the search ID from the URL (…/ssweb/search/<SEARCH ID>).
+ * If a document type's autocomplete label differs from the shared catalog in
+ * config.ts, override it under `documentTypes`.
+ */
+
+import type { TylerCountyConfig } from './tyler.js';
+
+export const tylerCounties: TylerCountyConfig[] = [
+  {
+    id: 'orange',
+    name: 'Orange County',
+    countyNumber: 58,
+    baseUrl: 'https://selfservice.or.occompt.com/ssweb',
+    searchId: 'DOCSEARCH2950S1',
+    searchCardText: 'Basic Official Records Search',
+    disclaimer: 'recaptcha',
+  },
+];
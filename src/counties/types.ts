@@ -0,0 +1,61 @@
+import type { Page } from 'playwright';
+import type { DocumentTypeOption } from '../config.js';
+import type { DateWindow } from '../dates.js';
+import type { Filing, FilingDetails } from '../database.js';
+import type { DocumentFile } from '../documentArchive.js';
+
+// ---------------------------------------------------------------------------
+// County adapter contract
+// ---------------------------------------------------------------------------
+// Every county clerk portal is driven through the same four steps. The
+// orchestrator in scraper.ts owns the browser, date windows, dedup and
+// reporting; an adapter only knows how to click through its own site.
+// ---------------------------------------------------------------------------
+
+/** A filing as read off a results page — the orchestrator stamps the county on */
+export type ScrapedFiling = Omit<Filing, 'county'>;
+
+/** What one search needs: the date window and the document types to select */
+export interface SearchRequest {
+  window: DateWindow;
+  documentTypes: DocumentTypeOption[];
+  /** True for the first search of a session (the page is still on the portal home) */
+  firstSearch: boolean;
+}
+
+/** What parseResults found across all pages of one search */
+export interface ResultsScrape {
+  filings: ScrapedFiling[];
+  /** "N Total Results" from the results header (null if it couldn't be read) */
+  total_reported: number | null;
+  pages_scraped: number;
+  /** True when more pages existed than config.scraper.maxPages allowed us to read */
+  truncated: boolean;
+}
+
+export interface CountyAdapter {
+  /** Registry key, also stored on every filing and run — e.g. "orange" */
+  id: string;
+  /** Display name for logs — e.g. "Orange County" */
+  name: string;
+  /** Florida DOR county number (CO_NO in the statewide cadastral layer) */
+  countyNumber: number;
+  /** Document types this portal offers, keyed by alias */
+  documentTypes: Record<string, DocumentTypeOption>;
+
+  /** Step 1: open the portal's landing page */
+  navigate(page: Page): Promise<void>;
+  /** Step 2: get past the disclaimer (and any CAPTCHA guarding it) */
+  acceptDisclaimer(page: Page): Promise<void>;
+  /** Step 3: open the search form, fill it in and submit */
+  search(page: Page, request: SearchRequest): Promise<void>;
+  /** Step 4: read every results page for the search just submitted */
+  parseResults(page: Page, request: SearchRequest): Promise<ResultsScrape>;
+  /** Optional step 5: open a filing's document detail page and read the fields
+   *  the result card doesn't show. Only called for new filings, and only when
+   *  enrichment is requested. */
+  fetchDetails?(page: Page, filing: Filing): Promise<FilingDetails>;
+  /** Optional step 6: download a filing's recorded document (PDF or image).
+   *  Resolves to null when the portal doesn't expose it (e.g. behind a paid login). */
+  downloadDocument?(page: Page, filing: Filing): Promise<DocumentFile | null>;
+}
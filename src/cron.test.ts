@@ -0,0 +1,109 @@
+/**
+ * Tests for cron.ts — parsing, and next-run times in America/New_York across
+ * both DST changes (2026: clocks go forward March 8, back November 1).
+ *
+ * Usage: npm test
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCron, nextCronTime, fromZonedTime, zonedTime } from './cron.js';
+import { isBusinessDay } from './holidays.js';
+
+const NEW_YORK = 'America/New_York';
+
+/** The next run after `after`, as an ISO instant */
+function next(cron: string, after: string, allowDay?: (isoDate: string) => boolean): string | undefined {
+  return nextCronTime(parseCron(cron), new Date(after), NEW_YORK, allowDay)?.toISOString();
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+describe('parseCron', () => {
+  test('expands steps and ranges', () => {
+    const cron = parseCron('*/10 8-17 * * 1-5');
+    assert.deepEqual(cron.minutes, [0, 10, 20, 30, 40, 50]);
+    assert.deepEqual(cron.hours, [8, 9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    assert.deepEqual([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+    assert.equal(cron.dayOfMonthRestricted, false);
+    assert.equal(cron.dayOfWeekRestricted, true);
+  });
+
+  test('reads lists, month and day names, and 7 as Sunday', () => {
+    const cron = parseCron('0,30 9 * JAN-MAR MON,fri,7');
+    assert.deepEqual(cron.minutes, [0, 30]);
+    assert.deepEqual([...cron.months], [1, 2, 3]);
+    assert.deepEqual([...cron.daysOfWeek].sort(), [0, 1, 5]);
+  });
+
+  test('a single value with a step runs to the end of the range', () => {
+    assert.deepEqual(parseCron('5/20 * * * *').minutes, [5, 25, 45]);
+  });
+
+  test('throws on malformed expressions', () => {
+    assert.throws(() => parseCron('* * * *'), /expected 5 fields, got 4/);
+    assert.throws(() => parseCron('60 * * * *'), /"60" is out of range 0-59/);
+    assert.throws(() => parseCron('*/0 * * * *'), /bad step/);
+    assert.throws(() => parseCron('0 17-8 * * *'), /backwards range/);
+    assert.throws(() => parseCron('0 8 * * FUNDAY'), /out of range/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Time zones
+// ---------------------------------------------------------------------------
+
+describe('fromZonedTime', () => {
+  test('round-trips a wall-clock time through zonedTime', () => {
+    const instant = fromZonedTime({ year: 2026, month: 6, day: 15, hour: 9, minute: 5 }, NEW_YORK);
+    assert.equal(instant.toISOString(), '2026-06-15T13:05:00.000Z');
+    assert.deepEqual(zonedTime(instant, NEW_YORK), { year: 2026, month: 6, day: 15, hour: 9, minute: 5, weekday: 1 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Next run
+// ---------------------------------------------------------------------------
+
+describe('nextCronTime', () => {
+  test('spring forward: 8am is 13:00 UTC on the Saturday, 12:00 UTC on the Sunday', () => {
+    assert.equal(next('0 8 * * *', '2026-03-07T12:00:00Z'), '2026-03-07T13:00:00.000Z');
+    assert.equal(next('0 8 * * *', '2026-03-07T15:00:00Z'), '2026-03-08T12:00:00.000Z');
+  });
+
+  test('spring forward: a skipped wall time runs the hour after', () => {
+    assert.equal(next('30 2 * * *', '2026-03-07T12:00:00Z'), '2026-03-08T07:30:00.000Z'); // 3:30 EDT
+  });
+
+  test('spring forward: the business-day schedule carries over the weekend', () => {
+    // Friday 5:55pm EST → Monday 8:00am EDT
+    assert.equal(next('*/10 8-17 * * 1-5', '2026-03-06T22:55:00Z'), '2026-03-09T12:00:00.000Z');
+  });
+
+  test('fall back: 8am is 12:00 UTC on the Saturday, 13:00 UTC on the Sunday', () => {
+    assert.equal(next('0 8 * * *', '2026-10-31T11:00:00Z'), '2026-10-31T12:00:00.000Z');
+    assert.equal(next('0 8 * * *', '2026-10-31T13:00:00Z'), '2026-11-01T13:00:00.000Z');
+  });
+
+  test('fall back: a repeated wall time runs once, at its first occurrence', () => {
+    assert.equal(next('30 1 * * *', '2026-10-31T12:00:00Z'), '2026-11-01T05:30:00.000Z'); // 1:30 EDT
+    assert.equal(next('30 1 * * *', '2026-11-01T05:30:00Z'), '2026-11-02T06:30:00.000Z'); // 1:30 EST next day
+  });
+
+  test('with both day fields restricted, either one fires', () => {
+    // Thursday October 1 (the 1st), then Monday October 5
+    assert.equal(next('0 12 1 * MON', '2026-09-30T20:00:00Z'), '2026-10-01T16:00:00.000Z');
+    assert.equal(next('0 12 1 * MON', '2026-10-01T17:00:00Z'), '2026-10-05T16:00:00.000Z');
+  });
+
+  test('skips days allowDay rejects', () => {
+    // Friday July 3, 2026 is the observed Independence Day
+    assert.equal(next('0 8 * * 1-5', '2026-07-02T20:00:00Z', isBusinessDay), '2026-07-06T12:00:00.000Z');
+  });
+
+  test('null when nothing fires within a year', () => {
+    assert.equal(next('0 8 30 FEB *', '2026-01-01T00:00:00Z'), undefined);
+  });
+});
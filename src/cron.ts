@@ -0,0 +1,181 @@
+/**
+ * CRON EXPRESSIONS IN A TIME ZONE
+ *
+ * Parses standard 5-field cron expressions ("minute hour day-of-month month
+ * day-of-week") and finds the next time one fires in a given IANA time zone,
+ * so "0,30 8-17 * * 1-5" means 8am-6pm Eastern whatever zone the server
+ * runs in. Supports *, lists, ranges, steps and JAN-DEC / SUN-SAT names.
+ * Like cron, when both day fields are restricted a day matching either one fires.
+ */
+
+export interface CronExpression {
+  source: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;  // 0 = Sunday
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+/** Wall-clock time in a time zone */
+export interface ZonedTime {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function parseField(field: string, min: number, max: number, names: string[] = [], nameOffset = 0): Set<number> {
+  const value = (text: string): number => {
+    const named = names.indexOf(text.toUpperCase());
+    const n = named >= 0 ? named + nameOffset : Number(text);
+    if (!Number.isInteger(n) || n < min || n > max) throw new Error(`"${text}" is out of range ${min}-${max}`);
+    return n;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`bad step in "${part}"`);
+
+    let start: number, end: number;
+    if (range === '*') {
+      [start, end] = [min, max];
+    } else if (range.includes('-')) {
+      const [a, b] = range.split('-');
+      [start, end] = [value(a), value(b)];
+    } else {
+      start = value(range);
+      end = stepText === undefined ? start : max;
+    }
+    if (start > end) throw new Error(`backwards range "${range}"`);
+    for (let n = start; n <= end; n += step) values.add(n);
+  }
+  return values;
+}
+
+/** Parse a 5-field cron expression. Throws on anything malformed. */
+export function parseCron(source: string): CronExpression {
+  const fields = source.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${source}": expected 5 fields, got ${fields.length}`);
+  }
+
+  try {
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+    const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0); // 7 is Sunday too
+    return {
+      source,
+      minutes: [...parseField(minute, 0, 59)].sort((a, b) => a - b),
+      hours: [...parseField(hour, 0, 23)].sort((a, b) => a - b),
+      daysOfMonth: parseField(dayOfMonth, 1, 31),
+      months: parseField(month, 1, 12, MONTH_NAMES, 1),
+      daysOfWeek,
+      dayOfMonthRestricted: dayOfMonth !== '*',
+      dayOfWeekRestricted: dayOfWeek !== '*',
+    };
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${source}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Time zones
+// ---------------------------------------------------------------------------
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** The wall-clock time at `date` in `timeZone`. Throws on an unknown zone. */
+export function zonedTime(date: Date, timeZone: string): ZonedTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(p => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+  };
+}
+
+/** The instant a wall-clock time happens in `timeZone`. A time skipped by a
+ *  DST change resolves to the hour after. */
+export function fromZonedTime(time: Omit<ZonedTime, 'weekday'>, timeZone: string): Date {
+  const wall = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute);
+  const offsetAt = (instant: number) => {
+    const z = zonedTime(new Date(instant), timeZone);
+    return Date.UTC(z.year, z.month - 1, z.day, z.hour, z.minute) - instant;
+  };
+  const first = wall - offsetAt(wall);
+  const second = wall - offsetAt(first);
+  // Only a skipped wall time fails to round-trip; the first guess is then the hour after
+  return offsetAt(second) === wall - second ? new Date(second) : new Date(first);
+}
+
+/** YYYY-MM-DD of a zoned time */
+export function isoDay(time: Pick<ZonedTime, 'year' | 'month' | 'day'>): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${time.year}-${pad(time.month)}-${pad(time.day)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Next run
+// ---------------------------------------------------------------------------
+
+function dayMatches(cron: CronExpression, day: number, weekday: number): boolean {
+  const byDate = cron.daysOfMonth.has(day);
+  const byWeekday = cron.daysOfWeek.has(weekday);
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return byDate || byWeekday;
+  return byDate && byWeekday;
+}
+
+/** The first time after `after` that `cron` fires in `timeZone`, on a day
+ *  `allowDay` (given YYYY-MM-DD) accepts. Null if there's none within a year. */
+export function nextCronTime(
+  cron: CronExpression,
+  after: Date,
+  timeZone: string,
+  allowDay: (isoDate: string) => boolean = () => true,
+): Date | null {
+  const start = zonedTime(after, timeZone);
+
+  for (let offset = 0; offset <= 366; offset++) {
+    // Calendar arithmetic in UTC — only the date matters here
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const day = { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+    if (!cron.months.has(day.month) || !dayMatches(cron, day.day, date.getUTCDay())) continue;
+    if (!allowDay(isoDay(day))) continue;
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const instant = fromZonedTime({ ...day, hour, minute }, timeZone);
+        if (instant.getTime() > after.getTime()) return instant;
+      }
+    }
+  }
+  return null;
+}
@@ -2,18 +2,140 @@ import Database from 'better-sqlite3';
 import fs from 'fs';
 import { paths } from './config.js';
 import { log } from './logger.js';
+import { applyMigrations } from './migrations.js';
+import { toIsoDate } from './dates.js';
+import type { DocumentExtraction } from './documentExtraction.js';
+import type { Party } from './parties.js';
+import type { ForeclosureKind } from './classification.js';
+import type { ParcelLookupResult } from './parcelLookup.js';
+import type { LeadScore, ScoreFactor } from './leadScoring.js';
+import type { CaseStatus, CaseTrackingOptions, CaseTrackingResult } from './caseTracking.js';
+import type { ScrapeOptions } from './scraper.js';
+import type { ScrapeResult } from './index.js';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 /** A single Lis Pendens filing as scraped from the county website */
 export interface Filing {
+  county: string;            // County adapter id, e.g. "orange"
   document_number: string;
   document_type: string;
   recording_date: string;
   grantor_name: string;      // Who filed (usually a bank, lender, or HOA)
   grantee_name: string;      // The property owner(s) — this is the lead
   legal_description: string; // Property info like "Lot: 7 RIDGEMOORE PHASE ONE"
+  detail_url?: string | null; // Link to the document detail page, when the card has one
+
+  // Grantors and grantees as structured parties (placeholders removed), and
+  // whether every grantee is a business, trust or estate
+  parties?: Party[];
+  entity_only?: boolean;
+
+  // What kind of foreclosure this is, from the document type and grantor
+  foreclosure_kind?: ForeclosureKind;
+  normalized_plaintiff?: string | null;
+
+  // 0..100 lead score and the factors behind it (see leadScoring.ts)
+  lead_score?: number | null;
+  lead_score_breakdown?: ScoreFactor[] | null;
+
+  // Where the case stands, from follow-up documents (see caseTracking.ts)
+  case_status?: CaseStatus | null;
+
+  // Where sales is with the lead (see setLeadStatus)
+  lead_status?: LeadStatus;
+
+  // Set once stored: recording_date as YYYY-MM-DD, and the POST /lookup-address result
+  recorded_on?: string | null;
+  address_lookup?: ParcelLookupResult | null;
+
+  // Document detail page fields — only present when enrichment ran
+  case_number?: string | null;
+  book?: string | null;
+  page?: string | null;
+  parcel_ids?: string[];
+  plaintiff_attorney?: string | null;
+
+  // Archived copy of the recorded document — only present when archiving ran
+  document_path?: string | null;
+  document_sha256?: string | null;
+  document_content_type?: string | null;
+
+  // Fields parsed from the archived document's text — only present when extraction ran
+  document_extraction?: DocumentExtraction | null;
+}
+
+/** Fields read from a filing's document detail page (optional enrichment pass) */
+export type FilingDetails = Required<Pick<Filing, 'case_number' | 'book' | 'page' | 'parcel_ids' | 'plaintiff_attorney'>>;
+
+/** Where sales is with a lead. Every filing starts as "new". */
+export type LeadStatus =
+  | 'new'
+  | 'contacted'
+  | 'follow_up'
+  | 'appointment'
+  | 'under_contract'
+  | 'closed'
+  | 'not_interested'
+  | 'dead';
+
+export const LEAD_STATUSES: LeadStatus[] = [
+  'new', 'contacted', 'follow_up', 'appointment', 'under_contract', 'closed', 'not_interested', 'dead',
+];
+
+export type SkipTraceStatus = 'pending' | 'traced' | 'no_results';
+
+/** A filing's grantor or grantee, stored one row per party */
+export interface PartyRecord extends Party {
+  id: number;
+  county: string;
+  document_number: string;
+}
+
+/** The property a filing's address lookup matched */
+export interface PropertyRecord {
+  id: number;
+  county: string;
+  parcel_number: string;
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+  owner_name: string;
+  legal_description: string;
+  just_value: number | null;
+  assessed_value: number | null;
+  homestead: boolean | null;
+  source: 'local' | 'arcgis' | null;
+  updated_at: string;
+}
+
+/** Skip-trace results for one person party */
+export interface ContactRecord {
+  id: number;
+  party_id: number;
+  phones: string[];
+  emails: string[];
+  mailing_address: string | null;
+  skip_trace_status: SkipTraceStatus;
+  traced_at: string | null;
+}
+
+export interface LeadStatusChange {
+  status: LeadStatus;
+  note: string | null;
+  created_at: string;
+}
+
+/** Everything known about one lead: the system of record the Sheet or a CRM syncs from */
+export interface LeadRecord {
+  filing: Filing & { created_at: string };
+  parties: PartyRecord[];
+  property: PropertyRecord | null;
+  contacts: Array<ContactRecord & { party_name: string }>;
+  status_history: LeadStatusChange[];
+  case_events: CaseEvent[];
 }
 
 // ---------------------------------------------------------------------------
@@ -21,7 +143,23 @@ export interface Filing {
 // ---------------------------------------------------------------------------
 let db: Database.Database;
 
-export function initDatabase(): void {
+// The HTTP server opens the database per request while a background scrape
+// may hold it open too. Every initDatabase() is paired with a closeDatabase(),
+// and the connection is only really closed when the last user is done.
+let openCount = 0;
+
+export interface InitDatabaseOptions {
+  /** Apply pending schema migrations (default true). `npm run migrate -- status`
+   *  opens the database without them to report what's pending. */
+  migrate?: boolean;
+}
+
+export function initDatabase(options: InitDatabaseOptions = {}): void {
+  if (openCount > 0) {
+    openCount++;
+    return;
+  }
+
   // Ensure data directory exists
   fs.mkdirSync(paths.data, { recursive: true });
 
@@ -30,40 +168,83 @@ export function initDatabase(): void {
   // Enable WAL mode for better concurrent access
   db.pragma('journal_mode = WAL');
 
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS filings (
-      document_number   TEXT PRIMARY KEY,
-      document_type     TEXT NOT NULL,
-      recording_date    TEXT NOT NULL,
-      grantor_name      TEXT DEFAULT '',
-      grantee_name      TEXT NOT NULL,
-      legal_description TEXT DEFAULT '',
-      created_at        TEXT DEFAULT (datetime('now'))
-    );
-  `);
+  // The schema lives in migrations.ts
+  if (options.migrate !== false) applyMigrations(db);
 
+  openCount = 1;
   log.info('Database initialized', { path: paths.database });
 }
 
+/** The open connection, for code that manages the schema itself (migrations) */
+export function getDatabase(): Database.Database {
+  return db;
+}
+
 // ---------------------------------------------------------------------------
 // Filing operations
 // ---------------------------------------------------------------------------
 
+/** The filings not stored yet (first occurrence of each), without storing
+ *  them — for picking what to enrich while a scrape is still running */
+export function selectUnseenFilings(filings: Filing[]): Filing[] {
+  const exists = db.prepare(`SELECT 1 FROM filings WHERE county = ? AND document_number = ?`);
+  const seen = new Set<string>();
+  return filings.filter(filing => {
+    const key = `${filing.county}|${filing.document_number}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return !exists.get(filing.county, filing.document_number);
+  });
+}
+
 /** Insert new filings, skipping any that already exist. Returns only the NEW ones. */
 export function insertNewFilings(filings: Filing[]): Filing[] {
   const insert = db.prepare(`
     INSERT OR IGNORE INTO filings
-      (document_number, document_type, recording_date, grantor_name, grantee_name, legal_description)
+      (county, document_number, document_type, recording_date, grantor_name, grantee_name, legal_description, detail_url,
+       parties, entity_only, foreclosure_kind, normalized_plaintiff, lead_score, lead_score_breakdown, scored_at,
+       case_status, case_status_at, recorded_on)
     VALUES
-      (@document_number, @document_type, @recording_date, @grantor_name, @grantee_name, @legal_description)
+      (@county, @document_number, @document_type, @recording_date, @grantor_name, @grantee_name, @legal_description, @detail_url,
+       @parties, @entity_only, @foreclosure_kind, @normalized_plaintiff, @lead_score, @lead_score_breakdown,
+       CASE WHEN @lead_score IS NULL THEN NULL ELSE datetime('now') END,
+       @case_status, CASE WHEN @case_status IS NULL THEN NULL ELSE datetime('now') END, @recorded_on)
+  `);
+
+  const insertParty = db.prepare(`
+    INSERT OR IGNORE INTO parties (county, document_number, role, kind, name, first_name, last_name)
+    VALUES (@county, @document_number, @role, @kind, @name, @first_name, @last_name)
   `);
 
   const newFilings: Filing[] = [];
 
   const transaction = db.transaction((items: Filing[]) => {
     for (const filing of items) {
-      const result = insert.run(filing);
+      const result = insert.run({
+        ...filing,
+        detail_url: filing.detail_url ?? null,
+        parties: filing.parties ? JSON.stringify(filing.parties) : null,
+        entity_only: filing.entity_only === undefined ? null : Number(filing.entity_only),
+        foreclosure_kind: filing.foreclosure_kind ?? null,
+        normalized_plaintiff: filing.normalized_plaintiff ?? null,
+        lead_score: filing.lead_score ?? null,
+        lead_score_breakdown: filing.lead_score_breakdown ? JSON.stringify(filing.lead_score_breakdown) : null,
+        case_status: filing.case_status ?? null,
+        recorded_on: toIsoDate(filing.recording_date),
+      });
       if (result.changes > 0) {
+        for (const party of filing.parties ?? []) {
+          insertParty.run({
+            county: filing.county,
+            document_number: filing.document_number,
+            role: party.role,
+            kind: party.kind,
+            name: party.name,
+            first_name: party.first_name ?? null,
+            last_name: party.last_name ?? null,
+          });
+        }
+        recordLeadStatus(filing, 'new', null);
         newFilings.push(filing);
       }
     }
@@ -73,6 +254,939 @@ export function insertNewFilings(filings: Filing[]): Filing[] {
   return newFilings;
 }
 
+/** Insert a finished scrape's new filings together with their detail-page
+ *  fields and archive records, all in one transaction — a run is either
+ *  stored whole or not at all. Returns only the NEW ones. */
+export function storeNewFilings(filings: Filing[]): Filing[] {
+  return db.transaction((items: Filing[]) => {
+    const stored = insertNewFilings(items);
+    for (const filing of stored) {
+      // parcel_ids is always set by a successful detail fetch
+      if (filing.parcel_ids !== undefined) saveFilingDetails(filing);
+      if (filing.document_path) saveDocumentArchive(filing);
+    }
+    return stored;
+  })(filings);
+}
+
+/** Store the detail-page fields of an enriched filing */
+export function saveFilingDetails(filing: Filing): void {
+  db.prepare(`
+    UPDATE filings SET
+      case_number        = @case_number,
+      book               = @book,
+      page               = @page,
+      parcel_ids         = @parcel_ids,
+      plaintiff_attorney = @plaintiff_attorney,
+      details_fetched_at = datetime('now')
+    WHERE county = @county AND document_number = @document_number
+  `).run({
+    county: filing.county,
+    document_number: filing.document_number,
+    case_number: filing.case_number ?? null,
+    book: filing.book ?? null,
+    page: filing.page ?? null,
+    parcel_ids: JSON.stringify(filing.parcel_ids ?? []),
+    plaintiff_attorney: filing.plaintiff_attorney ?? null,
+  });
+}
+
+/** Record where a filing's recorded document was archived */
+export function saveDocumentArchive(filing: Filing): void {
+  db.prepare(`
+    UPDATE filings SET
+      document_path         = @document_path,
+      document_sha256       = @document_sha256,
+      document_content_type = @document_content_type,
+      document_archived_at  = datetime('now')
+    WHERE county = @county AND document_number = @document_number
+  `).run({
+    county: filing.county,
+    document_number: filing.document_number,
+    document_path: filing.document_path ?? null,
+    document_sha256: filing.document_sha256 ?? null,
+    document_content_type: filing.document_content_type ?? null,
+  });
+}
+
+/** Store the fields extracted from a filing's archived document */
+export function saveDocumentExtraction(filing: Pick<Filing, 'county' | 'document_number'>, extraction: DocumentExtraction): void {
+  db.prepare(`
+    UPDATE filings SET document_extraction = @extraction
+    WHERE county = @county AND document_number = @document_number
+  `).run({
+    county: filing.county,
+    document_number: filing.document_number,
+    extraction: JSON.stringify(extraction),
+  });
+}
+
+/** Filings with an archived PDF that hasn't been through text extraction yet
+ *  (or all archived PDFs when `includeExtracted` is set) */
+export function getFilingsToExtract(includeExtracted = false): Array<Pick<Filing, 'county' | 'document_number'> & { document_path: string }> {
+  return db.prepare(`
+    SELECT county, document_number, document_path
+    FROM filings
+    WHERE document_path IS NOT NULL
+      AND document_content_type = 'application/pdf'
+      AND (@include_extracted = 1 OR document_extraction IS NULL)
+    ORDER BY created_at
+  `).all({ include_extracted: includeExtracted ? 1 : 0 }) as any;
+}
+
+/** Every stored filing's classification inputs, for re-running the classifier */
+export function getFilingsToClassify(): Array<Pick<Filing, 'county' | 'document_number' | 'document_type' | 'grantor_name'>> {
+  return db.prepare(`
+    SELECT county, document_number, document_type, grantor_name
+    FROM filings
+    ORDER BY created_at
+  `).all() as any;
+}
+
+/** Store a filing's foreclosure kind and normalized plaintiff */
+export function saveClassification(
+  filing: Pick<Filing, 'county' | 'document_number'>,
+  classification: Required<Pick<Filing, 'foreclosure_kind' | 'normalized_plaintiff'>>,
+): void {
+  db.prepare(`
+    UPDATE filings SET
+      foreclosure_kind     = @foreclosure_kind,
+      normalized_plaintiff = @normalized_plaintiff
+    WHERE county = @county AND document_number = @document_number
+  `).run({
+    county: filing.county,
+    document_number: filing.document_number,
+    ...classification,
+  });
+}
+
+/** Store the result of a filing's address lookup, and the matched parcel as
+ *  the filing's property */
+export function saveAddressLookup(filing: Pick<Filing, 'county' | 'document_number'>, lookup: ParcelLookupResult): void {
+  const propertyId = lookup.lookup_status === 'matched' && lookup.parcel_number
+    ? saveProperty(filing.county, lookup)
+    : null;
+
+  db.prepare(`
+    UPDATE filings SET address_lookup = @lookup, property_id = @property_id
+    WHERE county = @county AND document_number = @document_number
+  `).run({
+    county: filing.county,
+    document_number: filing.document_number,
+    lookup: JSON.stringify(lookup),
+    property_id: propertyId,
+  });
+}
+
+/** A stored filing with everything the lead scorer reads */
+export type FilingToScore = Pick<Filing,
+  'county' | 'document_number' | 'grantor_name' | 'grantee_name' | 'foreclosure_kind' | 'parties' | 'entity_only'> & {
+  address_lookup: ParcelLookupResult | null;
+};
+
+function toFilingToScore(row: any): FilingToScore {
+  return {
+    county: row.county,
+    document_number: row.document_number,
+    grantor_name: row.grantor_name,
+    grantee_name: row.grantee_name,
+    foreclosure_kind: row.foreclosure_kind ?? undefined,
+    parties: row.parties ? JSON.parse(row.parties) : undefined,
+    entity_only: row.entity_only === null ? undefined : Boolean(row.entity_only),
+    address_lookup: row.address_lookup ? JSON.parse(row.address_lookup) : null,
+  };
+}
+
+const SCORING_COLUMNS = `county, document_number, grantor_name, grantee_name, foreclosure_kind, parties, entity_only, address_lookup`;
+
+/** Every stored filing's scoring inputs, for re-running the scorer */
+export function getFilingsToScore(): FilingToScore[] {
+  const rows = db.prepare(`SELECT ${SCORING_COLUMNS} FROM filings ORDER BY created_at`).all();
+  return rows.map(toFilingToScore);
+}
+
+/** One stored filing's scoring inputs, or null if it isn't stored */
+export function getFilingToScore(county: string, documentNumber: string): FilingToScore | null {
+  const row = db.prepare(`
+    SELECT ${SCORING_COLUMNS} FROM filings
+    WHERE county = ? AND document_number = ?
+  `).get(county, documentNumber);
+  return row ? toFilingToScore(row) : null;
+}
+
+/** Store a filing's lead score and its breakdown */
+export function saveLeadScore(filing: Pick<Filing, 'county' | 'document_number'>, score: LeadScore): void {
+  db.prepare(`
+    UPDATE filings SET
+      lead_score           = @lead_score,
+      lead_score_breakdown = @lead_score_breakdown,
+      scored_at            = datetime('now')
+    WHERE county = @county AND document_number = @document_number
+  `).run({
+    county: filing.county,
+    document_number: filing.document_number,
+    lead_score: score.lead_score,
+    lead_score_breakdown: JSON.stringify(score.lead_score_breakdown),
+  });
+}
+
+export interface Lead {
+  county: string;
+  document_number: string;
+  document_type: string;
+  recording_date: string;
+  grantor_name: string;
+  grantee_name: string;
+  foreclosure_kind: ForeclosureKind | null;
+  case_status: CaseStatus | null;
+  lead_score: number;
+  lead_score_breakdown: ScoreFactor[];
+  property_address: string | null;
+  property_city: string | null;
+  property_zip: string | null;
+}
+
+/** Scored filings, highest score first (most recently scraped breaks ties) */
+export function getLeads(
+  options: { county?: string; minScore?: number; limit?: number; actionableOnly?: boolean } = {},
+): Lead[] {
+  const rows = db.prepare(`
+    SELECT county, document_number, document_type, recording_date, grantor_name, grantee_name,
+           foreclosure_kind, case_status, lead_score, lead_score_breakdown, address_lookup
+    FROM filings
+    WHERE lead_score IS NOT NULL
+      AND (@county IS NULL OR county = @county)
+      AND lead_score >= @min_score
+      AND (@actionable_only = 0 OR case_status IS NULL OR case_status IN ('filed', 'judgment', 'sale_scheduled'))
+    ORDER BY lead_score DESC, created_at DESC
+    LIMIT @limit
+  `).all({
+    county: options.county ?? null,
+    min_score: options.minScore ?? 0,
+    limit: options.limit ?? 100,
+    actionable_only: options.actionableOnly ? 1 : 0,
+  }) as any[];
+
+  return rows.map(row => {
+    const lookup: ParcelLookupResult | null = row.address_lookup ? JSON.parse(row.address_lookup) : null;
+    return {
+      county: row.county,
+      document_number: row.document_number,
+      document_type: row.document_type,
+      recording_date: row.recording_date,
+      grantor_name: row.grantor_name,
+      grantee_name: row.grantee_name,
+      foreclosure_kind: row.foreclosure_kind,
+      case_status: row.case_status,
+      lead_score: row.lead_score,
+      lead_score_breakdown: JSON.parse(row.lead_score_breakdown ?? '[]'),
+      property_address: lookup?.property_address || null,
+      property_city: lookup?.property_city || null,
+      property_zip: lookup?.property_zip || null,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Lead record operations
+// ---------------------------------------------------------------------------
+
+/** Insert or refresh a property from a matched address lookup. Returns its id. */
+function saveProperty(county: string, lookup: ParcelLookupResult): number {
+  const row = db.prepare(`
+    INSERT INTO properties
+      (county, parcel_number, address, city, zip, owner_name, legal_description, just_value, assessed_value, homestead, source)
+    VALUES
+      (@county, @parcel_number, @address, @city, @zip, @owner_name, @legal_description, @just_value, @assessed_value, @homestead, @source)
+    ON CONFLICT (county, parcel_number) DO UPDATE SET
+      address = excluded.address, city = excluded.city, zip = excluded.zip, owner_name = excluded.owner_name,
+      legal_description = excluded.legal_description, just_value = excluded.just_value,
+      assessed_value = excluded.assessed_value, homestead = excluded.homestead, source = excluded.source,
+      updated_at = datetime('now')
+    RETURNING id
+  `).get({
+    county,
+    parcel_number: lookup.parcel_number,
+    address: lookup.property_address ?? '',
+    city: lookup.property_city ?? '',
+    zip: lookup.property_zip ?? '',
+    owner_name: lookup.owner_name_on_parcel ?? '',
+    legal_description: lookup.parcel_legal ?? '',
+    just_value: lookup.just_value,
+    assessed_value: lookup.assessed_value,
+    homestead: lookup.homestead === null ? null : Number(lookup.homestead),
+    source: lookup.parcel_source,
+  }) as { id: number };
+  return row.id;
+}
+
+function recordLeadStatus(filing: Pick<Filing, 'county' | 'document_number'>, status: LeadStatus, note: string | null): void {
+  db.prepare(`
+    INSERT INTO lead_status_history (county, document_number, status, note)
+    VALUES (@county, @document_number, @status, @note)
+  `).run({ county: filing.county, document_number: filing.document_number, status, note });
+}
+
+/** Move a lead to a new status (or add a note to its current one). Returns
+ *  false if the filing isn't stored. */
+export function setLeadStatus(
+  filing: Pick<Filing, 'county' | 'document_number'>,
+  status: LeadStatus,
+  note: string | null = null,
+): boolean {
+  return db.transaction(() => {
+    const result = db.prepare(`
+      UPDATE filings SET lead_status = @status
+      WHERE county = @county AND document_number = @document_number
+    `).run({ county: filing.county, document_number: filing.document_number, status });
+    if (result.changes === 0) return false;
+    recordLeadStatus(filing, status, note);
+    return true;
+  })();
+}
+
+/** A filing's parties, grantors first, in the order they were printed */
+export function getParties(county: string, documentNumber: string): PartyRecord[] {
+  return db.prepare(`
+    SELECT id, county, document_number, role, kind, name, first_name, last_name
+    FROM parties
+    WHERE county = ? AND document_number = ?
+    ORDER BY role = 'grantee', id
+  `).all(county, documentNumber).map((row: any) => ({
+    ...row,
+    first_name: row.first_name ?? undefined,
+    last_name: row.last_name ?? undefined,
+  }));
+}
+
+/** Store skip-trace results for a person party, replacing earlier ones */
+export function saveContact(
+  partyId: number,
+  contact: Pick<ContactRecord, 'phones' | 'emails' | 'mailing_address' | 'skip_trace_status'>,
+): void {
+  db.prepare(`
+    INSERT INTO contacts (party_id, phones, emails, mailing_address, skip_trace_status, traced_at)
+    VALUES (@party_id, @phones, @emails, @mailing_address, @skip_trace_status,
+            CASE WHEN @skip_trace_status = 'pending' THEN NULL ELSE datetime('now') END)
+    ON CONFLICT (party_id) DO UPDATE SET
+      phones = excluded.phones, emails = excluded.emails, mailing_address = excluded.mailing_address,
+      skip_trace_status = excluded.skip_trace_status, traced_at = excluded.traced_at,
+      updated_at = datetime('now')
+  `).run({
+    party_id: partyId,
+    phones: JSON.stringify(contact.phones),
+    emails: JSON.stringify(contact.emails),
+    mailing_address: contact.mailing_address,
+    skip_trace_status: contact.skip_trace_status,
+  });
+}
+
+function toContact(row: any): ContactRecord & { party_name: string } {
+  return {
+    id: row.id,
+    party_id: row.party_id,
+    party_name: row.party_name,
+    phones: JSON.parse(row.phones),
+    emails: JSON.parse(row.emails),
+    mailing_address: row.mailing_address,
+    skip_trace_status: row.skip_trace_status,
+    traced_at: row.traced_at,
+  };
+}
+
+function toProperty(row: any): PropertyRecord {
+  return { ...row, homestead: row.homestead === null ? null : Boolean(row.homestead) };
+}
+
+/** A stored filings row as a Filing, with its JSON columns parsed */
+function toFiling(row: any): Filing & { created_at: string } {
+  return {
+    ...row,
+    parties: row.parties ? JSON.parse(row.parties) : undefined,
+    entity_only: row.entity_only === null ? undefined : Boolean(row.entity_only),
+    parcel_ids: row.parcel_ids ? JSON.parse(row.parcel_ids) : undefined,
+    document_extraction: row.document_extraction ? JSON.parse(row.document_extraction) : null,
+    lead_score_breakdown: row.lead_score_breakdown ? JSON.parse(row.lead_score_breakdown) : null,
+    address_lookup: row.address_lookup ? JSON.parse(row.address_lookup) : null,
+  };
+}
+
+/** The full record for one lead, or null if the filing isn't stored */
+export function getLeadRecord(county: string, documentNumber: string): LeadRecord | null {
+  const row = db.prepare(`SELECT * FROM filings WHERE county = ? AND document_number = ?`).get(county, documentNumber) as any;
+  if (!row) return null;
+
+  const property = row.property_id
+    ? db.prepare(`SELECT * FROM properties WHERE id = ?`).get(row.property_id)
+    : null;
+  const contacts = db.prepare(`
+    SELECT c.*, p.name AS party_name
+    FROM contacts c JOIN parties p ON p.id = c.party_id
+    WHERE p.county = ? AND p.document_number = ?
+    ORDER BY p.id
+  `).all(county, documentNumber);
+  const history = db.prepare(`
+    SELECT status, note, created_at
+    FROM lead_status_history
+    WHERE county = ? AND document_number = ?
+    ORDER BY id
+  `).all(county, documentNumber) as LeadStatusChange[];
+
+  return {
+    filing: toFiling(row),
+    parties: getParties(county, documentNumber),
+    property: property ? toProperty(property) : null,
+    contacts: contacts.map(toContact),
+    status_history: history,
+    case_events: getCaseEvents(county, documentNumber),
+  };
+}
+
+/** Filters for listing stored filings. Dates are YYYY-MM-DD; text filters
+ *  are case-insensitive substrings. */
+export interface FilingQuery {
+  county?: string;
+  startDate?: string;
+  endDate?: string;
+  documentTypes?: string[];
+  grantor?: string;
+  grantee?: string;
+  leadStatus?: LeadStatus;
+  caseStatus?: CaseStatus;
+  limit?: number;
+  /** next_cursor from the previous page */
+  cursor?: string;
+}
+
+export interface FilingPage {
+  filings: Array<Filing & { created_at: string }>;
+  /** Pass back as `cursor` for the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+/** Opaque cursor: the sort key of the last filing on a page */
+function encodeCursor(row: { recorded_on: string | null; county: string; document_number: string }): string {
+  return Buffer.from(JSON.stringify([row.recorded_on ?? '', row.county, row.document_number])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [string, string, string] {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(key) && key.length === 3 && key.every(k => typeof k === 'string')) {
+      return key as [string, string, string];
+    }
+  } catch {
+    // Fall through
+  }
+  throw new Error('Invalid cursor');
+}
+
+/** LIKE pattern matching `text` anywhere, with LIKE wildcards escaped */
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+}
+
+/** Stored filings, most recently recorded first, one page at a time.
+ *  Throws on a malformed cursor. */
+export function getFilings(query: FilingQuery = {}): FilingPage {
+  const limit = query.limit ?? 100;
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const types = query.documentTypes?.length ? query.documentTypes : null;
+
+  const rows = db.prepare(`
+    SELECT * FROM filings
+    WHERE (@county IS NULL OR county = @county)
+      AND (@start_date IS NULL OR recorded_on >= @start_date)
+      AND (@end_date IS NULL OR recorded_on <= @end_date)
+      AND (@document_types IS NULL OR document_type IN (SELECT value FROM json_each(@document_types)))
+      AND (@grantor IS NULL OR grantor_name LIKE @grantor ESCAPE '\\')
+      AND (@grantee IS NULL OR grantee_name LIKE @grantee ESCAPE '\\')
+      AND (@lead_status IS NULL OR lead_status = @lead_status)
+      AND (@case_status IS NULL OR case_status = @case_status)
+      AND (@after_recorded_on IS NULL
+           OR (COALESCE(recorded_on, ''), county, document_number) < (@after_recorded_on, @after_county, @after_document_number))
+    ORDER BY COALESCE(recorded_on, '') DESC, county DESC, document_number DESC
+    LIMIT @limit
+  `).all({
+    county: query.county ?? null,
+    start_date: query.startDate ?? null,
+    end_date: query.endDate ?? null,
+    document_types: types ? JSON.stringify(types) : null,
+    grantor: query.grantor ? containsPattern(query.grantor) : null,
+    grantee: query.grantee ? containsPattern(query.grantee) : null,
+    lead_status: query.leadStatus ?? null,
+    case_status: query.caseStatus ?? null,
+    after_recorded_on: after?.[0] ?? null,
+    after_county: after?.[1] ?? null,
+    after_document_number: after?.[2] ?? null,
+    limit: limit + 1,  // One extra row tells us whether there's another page
+  }) as any[];
+
+  const page = rows.slice(0, limit);
+  return {
+    filings: page.map(toFiling),
+    next_cursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+/** The county a document number was stored under. Without a county to go on,
+ *  the most recently scraped match wins. Returns null if it isn't stored. */
+export function findFilingCounty(documentNumber: string): string | null {
+  const row = db.prepare(`
+    SELECT county FROM filings WHERE document_number = ? ORDER BY created_at DESC LIMIT 1
+  `).get(documentNumber) as { county: string } | undefined;
+  return row?.county ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Case tracking operations
+// ---------------------------------------------------------------------------
+
+/** A stored filing with everything case tracking matches follow-ups against */
+export type TrackedFiling = Pick<Filing,
+  'county' | 'document_number' | 'document_type' | 'recording_date' | 'grantor_name' | 'grantee_name' |
+  'legal_description' | 'case_number' | 'book' | 'page' | 'normalized_plaintiff'> & {
+  case_status: CaseStatus | null;
+};
+
+/** A county's filings whose case is still open (no status yet, filed,
+ *  judgment or sale scheduled) */
+export function getTrackedFilings(county: string): TrackedFiling[] {
+  return db.prepare(`
+    SELECT county, document_number, document_type, recording_date, grantor_name, grantee_name,
+           legal_description, case_number, book, page, normalized_plaintiff, case_status
+    FROM filings
+    WHERE county = ?
+      AND (case_status IS NULL OR case_status IN ('filed', 'judgment', 'sale_scheduled'))
+    ORDER BY created_at
+  `).all(county) as any;
+}
+
+export interface CaseEvent {
+  county: string;
+  document_number: string;
+  event_document_number: string;
+  event_document_type: string;
+  event_recording_date: string;
+  status: CaseStatus;
+  /** What tied the follow-up to the filing: case_number, legal_description or plaintiff */
+  matched_by: string;
+}
+
+/** Record a follow-up document for a filing. Returns false if it was already recorded. */
+export function recordCaseEvent(event: CaseEvent): boolean {
+  const result = db.prepare(`
+    INSERT OR IGNORE INTO case_events
+      (county, document_number, event_document_number, event_document_type, event_recording_date, status, matched_by)
+    VALUES
+      (@county, @document_number, @event_document_number, @event_document_type, @event_recording_date, @status, @matched_by)
+  `).run(event);
+  return result.changes > 0;
+}
+
+/** Store where a filing's case stands */
+export function saveCaseStatus(filing: Pick<Filing, 'county' | 'document_number'>, status: CaseStatus): void {
+  db.prepare(`
+    UPDATE filings SET case_status = @status, case_status_at = datetime('now')
+    WHERE county = @county AND document_number = @document_number
+  `).run({ county: filing.county, document_number: filing.document_number, status });
+}
+
+/** Follow-up documents recorded for a filing, oldest first */
+export function getCaseEvents(county: string, documentNumber: string): CaseEvent[] {
+  return db.prepare(`
+    SELECT county, document_number, event_document_number, event_document_type, event_recording_date, status, matched_by
+    FROM case_events
+    WHERE county = ? AND document_number = ?
+    ORDER BY created_at, event_document_number
+  `).all(county, documentNumber) as any;
+}
+
+/** Look up the archived document for a filing. Without a county, the most
+ *  recently recorded match across counties wins. Returns null if not archived. */
+export function getArchivedDocument(
+  documentNumber: string,
+  county?: string,
+): { county: string; document_path: string; document_sha256: string; document_content_type: string } | null {
+  const row = db.prepare(`
+    SELECT county, document_path, document_sha256, document_content_type
+    FROM filings
+    WHERE document_number = @document_number
+      AND (@county IS NULL OR county = @county)
+      AND document_path IS NOT NULL
+    ORDER BY created_at DESC
+    LIMIT 1
+  `).get({ document_number: documentNumber, county: county ?? null }) as any;
+  return row ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Scrape job operations
+// ---------------------------------------------------------------------------
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed'];
+
+export type CallbackStatus = 'pending' | 'delivered' | 'failed';
+
+/** What a job runs: a scrape, or a case-tracking search (caseTracking.ts) */
+export type JobKind = 'scrape' | 'track_cases';
+
+interface JobFields {
+  job_id: string;
+  status: JobStatus;
+  timeout_ms: number;
+  /** Times the job has been started (a job interrupted by a restart runs again) */
+  attempts: number;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  /** Where the result is POSTed when the job finishes (see webhooks.ts) */
+  callback_url: string | null;
+  callback_status: CallbackStatus | null;
+  callback_attempts: number;
+  callback_error: string | null;
+}
+
+/** One POST /scrape request (or scheduled scrape) and, once it has run, its result */
+export interface ScrapeJob extends JobFields {
+  kind: 'scrape';
+  options: ScrapeOptions;
+  result: ScrapeResult | null;
+}
+
+/** One scheduled case-tracking run and, once it has run, its result */
+export interface CaseTrackingJob extends JobFields {
+  kind: 'track_cases';
+  options: CaseTrackingOptions;
+  result: CaseTrackingResult | null;
+}
+
+export type Job = ScrapeJob | CaseTrackingJob;
+
+function toJob(row: any): Job {
+  return {
+    job_id: row.id,
+    kind: row.kind,
+    status: row.status,
+    options: JSON.parse(row.options),
+    timeout_ms: row.timeout_ms,
+    attempts: row.attempts,
+    result: row.result ? JSON.parse(row.result) : null,
+    error: row.error,
+    created_at: row.created_at,
+    started_at: row.started_at,
+    finished_at: row.finished_at,
+    callback_url: row.callback_url,
+    callback_status: row.callback_status,
+    callback_attempts: row.callback_attempts,
+    callback_error: row.callback_error,
+  };
+}
+
+export function createJob(id: string, options: ScrapeOptions, timeoutMs: number, callbackUrl: string | null = null): ScrapeJob {
+  const row = db.prepare(`
+    INSERT INTO scrape_jobs (id, kind, status, options, timeout_ms, callback_url) VALUES (?, 'scrape', 'queued', ?, ?, ?)
+    RETURNING *
+  `).get(id, JSON.stringify(options), timeoutMs, callbackUrl);
+  return toJob(row) as ScrapeJob;
+}
+
+export function createCaseTrackingJob(id: string, options: CaseTrackingOptions, timeoutMs: number): CaseTrackingJob {
+  const row = db.prepare(`
+    INSERT INTO scrape_jobs (id, kind, status, options, timeout_ms) VALUES (?, 'track_cases', 'queued', ?, ?)
+    RETURNING *
+  `).get(id, JSON.stringify(options), timeoutMs);
+  return toJob(row) as CaseTrackingJob;
+}
+
+export function getJob(id: string): Job | null {
+  const row = db.prepare('SELECT * FROM scrape_jobs WHERE id = ?').get(id);
+  return row ? toJob(row) : null;
+}
+
+/** Jobs, newest first */
+export function getJobs(options: { status?: JobStatus; kind?: JobKind; limit?: number } = {}): Job[] {
+  return (db.prepare(`
+    SELECT * FROM scrape_jobs
+    WHERE (@status IS NULL OR status = @status)
+      AND (@kind IS NULL OR kind = @kind)
+    ORDER BY created_at DESC, rowid DESC
+    LIMIT @limit
+  `).all({ status: options.status ?? null, kind: options.kind ?? null, limit: options.limit ?? 50 }) as any[]).map(toJob);
+}
+
+/** How many jobs are in each status */
+export function getJobCounts(): Record<JobStatus, number> {
+  const counts: Record<JobStatus, number> = { queued: 0, running: 0, succeeded: 0, failed: 0 };
+  const rows = db.prepare('SELECT status, COUNT(*) AS count FROM scrape_jobs GROUP BY status').all() as Array<{ status: JobStatus; count: number }>;
+  for (const row of rows) counts[row.status] = row.count;
+  return counts;
+}
+
+/** Mark the oldest queued job running and return it (null when the queue is empty) */
+export function claimNextJob(): Job | null {
+  const row = db.prepare(`
+    UPDATE scrape_jobs
+    SET status = 'running', attempts = attempts + 1, started_at = datetime('now')
+    WHERE id = (SELECT id FROM scrape_jobs WHERE status = 'queued' ORDER BY created_at, rowid LIMIT 1)
+    RETURNING *
+  `).get();
+  return row ? toJob(row) : null;
+}
+
+/** Store a job's result. A job with a callback_url is left with its callback pending. */
+export function finishJob(id: string, result: ScrapeResult | CaseTrackingResult): void {
+  db.prepare(`
+    UPDATE scrape_jobs
+    SET status = ?, result = ?, error = ?, finished_at = datetime('now'),
+        callback_status = CASE WHEN callback_url IS NULL THEN NULL ELSE 'pending' END
+    WHERE id = ?
+  `).run(result.success ? 'succeeded' : 'failed', JSON.stringify(result), result.error, id);
+}
+
+/** Record one callback delivery attempt */
+export function saveCallbackAttempt(id: string, status: CallbackStatus, error: string | null): void {
+  db.prepare(`
+    UPDATE scrape_jobs
+    SET callback_status = ?, callback_attempts = callback_attempts + 1, callback_error = ?
+    WHERE id = ?
+  `).run(status, error, id);
+}
+
+/** Finished jobs whose callback hasn't been delivered or given up on yet */
+export function getPendingCallbacks(): Job[] {
+  return (db.prepare(`
+    SELECT * FROM scrape_jobs WHERE callback_status = 'pending' ORDER BY finished_at
+  `).all() as any[]).map(toJob);
+}
+
+/** Put a running job back in the queue, ahead of jobs queued after it */
+export function requeueJob(id: string): void {
+  db.prepare(`UPDATE scrape_jobs SET status = 'queued', started_at = NULL WHERE id = ?`).run(id);
+}
+
+// ---------------------------------------------------------------------------
+// Schedule operations
+// ---------------------------------------------------------------------------
+
+export type ScheduleOutcome = 'queued' | 'skipped_busy' | 'caught_up' | 'missed';
+
+export interface ScheduleRun {
+  planned_at: string;
+  cron: string;
+  outcome: ScheduleOutcome;
+  job_id: string | null;
+}
+
+export function recordScheduleRun(run: ScheduleRun): void {
+  db.prepare(`
+    INSERT OR REPLACE INTO schedule_runs (planned_at, cron, outcome, job_id)
+    VALUES (@planned_at, @cron, @outcome, @job_id)
+  `).run(run);
+}
+
+/** The most recently due run the scheduler handled */
+export function getLastScheduleRun(): ScheduleRun | null {
+  const row = db.prepare(`
+    SELECT planned_at, cron, outcome, job_id FROM schedule_runs ORDER BY planned_at DESC LIMIT 1
+  `).get() as ScheduleRun | undefined;
+  return row ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// API key operations
+// ---------------------------------------------------------------------------
+
+export type ApiScope = 'trigger' | 'read' | 'admin';
+
+export const API_SCOPES: ApiScope[] = ['trigger', 'read', 'admin'];
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  rate_limit: number | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+function toApiKey(row: any): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    scopes: JSON.parse(row.scopes),
+    rate_limit: row.rate_limit,
+    created_at: row.created_at,
+    last_used_at: row.last_used_at,
+    revoked_at: row.revoked_at,
+  };
+}
+
+export function createApiKey(key: { id: string; name: string; key_hash: string; scopes: ApiScope[]; rate_limit: number | null }): ApiKey {
+  const row = db.prepare(`
+    INSERT INTO api_keys (id, name, key_hash, scopes, rate_limit) VALUES (?, ?, ?, ?, ?)
+    RETURNING *
+  `).get(key.id, key.name, key.key_hash, JSON.stringify(key.scopes), key.rate_limit);
+  return toApiKey(row);
+}
+
+/** The active (not revoked) key with this hash */
+export function findApiKey(keyHash: string): ApiKey | null {
+  const row = db.prepare(`SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL`).get(keyHash);
+  return row ? toApiKey(row) : null;
+}
+
+export function getApiKeys(): ApiKey[] {
+  return (db.prepare(`SELECT * FROM api_keys ORDER BY created_at, id`).all() as any[]).map(toApiKey);
+}
+
+export function countActiveApiKeys(): number {
+  const row = db.prepare(`SELECT COUNT(*) AS count FROM api_keys WHERE revoked_at IS NULL`).get() as { count: number };
+  return row.count;
+}
+
+/** Returns false if there's no active key with that id */
+export function revokeApiKey(id: string): boolean {
+  return db.prepare(`
+    UPDATE api_keys SET revoked_at = datetime('now') WHERE id = ? AND revoked_at IS NULL
+  `).run(id).changes > 0;
+}
+
+export function touchApiKey(id: string): void {
+  db.prepare(`UPDATE api_keys SET last_used_at = datetime('now') WHERE id = ?`).run(id);
+}
+
+// ---------------------------------------------------------------------------
+// Parcel roll operations
+// ---------------------------------------------------------------------------
+
+/** One parcel from a county roll (FDOR NAL field names, lower-cased) */
+export interface ParcelRecord {
+  co_no: number;       // Florida DOR county number
+  parcel_id: string;
+  own_name: string;
+  phy_addr1: string;
+  phy_city: string;
+  phy_zipcd: string;
+  s_legal: string;
+  jv: number | null;       // Just (market) value
+  av_nsd: number | null;   // Assessed value, non-school district
+  jv_hmstd: number | null; // Just value of the homestead portion
+}
+
+const PARCEL_COLUMNS = 'co_no, parcel_id, own_name, phy_addr1, phy_city, phy_zipcd, s_legal, jv, av_nsd, jv_hmstd';
+
+/** Replace the parcel roll of every county that appears in `records`.
+ *  The whole file is read into a TEMP staging table first — it lives outside
+ *  the database file, so the running server can keep writing meanwhile, and
+ *  a file that fails to read leaves every roll as it was. Each county is then
+ *  swapped in its own transaction, which holds the write lock only for the
+ *  copy. Returns the number of parcels imported per county number. */
+export async function replaceParcels(records: AsyncIterable<ParcelRecord>): Promise<Map<number, number>> {
+  db.exec(`
+    DROP TABLE IF EXISTS temp.parcel_import;
+    CREATE TEMP TABLE parcel_import (
+      co_no     INTEGER NOT NULL,
+      parcel_id TEXT NOT NULL,
+      own_name  TEXT, phy_addr1 TEXT, phy_city TEXT, phy_zipcd TEXT, s_legal TEXT,
+      jv REAL, av_nsd REAL, jv_hmstd REAL,
+      PRIMARY KEY (co_no, parcel_id)
+    );
+  `);
+
+  try {
+    // Staged in batches: db.transaction() can't span the awaits of the file stream
+    const stage = db.prepare(`
+      INSERT OR REPLACE INTO temp.parcel_import (${PARCEL_COLUMNS})
+      VALUES (@co_no, @parcel_id, @own_name, @phy_addr1, @phy_city, @phy_zipcd, @s_legal, @jv, @av_nsd, @jv_hmstd)
+    `);
+    const stageBatch = db.transaction((batch: ParcelRecord[]) => {
+      for (const record of batch) stage.run(record);
+    });
+    let batch: ParcelRecord[] = [];
+    for await (const record of records) {
+      batch.push(record);
+      if (batch.length >= 5000) {
+        stageBatch(batch);
+        batch = [];
+      }
+    }
+    stageBatch(batch);
+
+    // parcels_fts is an external-content index: rows leaving and entering
+    // parcels are removed from and added to it by hand
+    const swapCounty = db.transaction((coNo: number) => {
+      db.prepare(`
+        INSERT INTO parcels_fts (parcels_fts, rowid, own_name, s_legal)
+        SELECT 'delete', id, own_name, s_legal FROM parcels WHERE co_no = ?
+      `).run(coNo);
+      db.prepare('DELETE FROM parcels WHERE co_no = ?').run(coNo);
+      db.prepare(`
+        INSERT INTO parcels (${PARCEL_COLUMNS})
+        SELECT ${PARCEL_COLUMNS} FROM temp.parcel_import WHERE co_no = ?
+      `).run(coNo);
+      db.prepare(`
+        INSERT INTO parcels_fts (rowid, own_name, s_legal)
+        SELECT id, own_name, s_legal FROM parcels WHERE co_no = ?
+      `).run(coNo);
+    });
+
+    const counts = new Map<number, number>();
+    const staged = db.prepare(`
+      SELECT co_no, COUNT(*) AS count FROM temp.parcel_import GROUP BY co_no ORDER BY co_no
+    `).all() as Array<{ co_no: number; count: number }>;
+    for (const { co_no, count } of staged) {
+      swapCounty(co_no);
+      counts.set(co_no, count);
+    }
+    return counts;
+  } finally {
+    db.exec('DROP TABLE IF EXISTS temp.parcel_import');
+  }
+}
+
+/** Parcels in a county owned by exactly `ownerName` */
+export function findParcelsByOwner(coNo: number, ownerName: string): ParcelRecord[] {
+  return db.prepare(`
+    SELECT co_no, parcel_id, own_name, phy_addr1, phy_city, phy_zipcd, s_legal, jv, av_nsd, jv_hmstd
+    FROM parcels
+    WHERE co_no = ? AND own_name = ?
+  `).all(coNo, ownerName.trim().toUpperCase()) as ParcelRecord[];
+}
+
+/** Quote a word for an FTS5 query and make it a prefix match */
+function ftsPrefix(word: string): string {
+  return `"${word.replace(/"/g, '""')}"*`;
+}
+
+/** Full-text search on owner name: owners with a name word starting with
+ *  `surname` and, when `anyOf` is given, with one starting with any of those */
+export function searchParcelsByOwner(coNo: number, surname: string, anyOf: string[], limit: number): ParcelRecord[] {
+  let match = `own_name : ${ftsPrefix(surname)}`;
+  if (anyOf.length > 0) {
+    match += ` AND own_name : (${anyOf.map(ftsPrefix).join(' OR ')})`;
+  }
+
+  return db.prepare(`
+    SELECT p.co_no, p.parcel_id, p.own_name, p.phy_addr1, p.phy_city, p.phy_zipcd, p.s_legal, p.jv, p.av_nsd, p.jv_hmstd
+    FROM parcels_fts
+    JOIN parcels p ON p.id = parcels_fts.rowid
+    WHERE parcels_fts MATCH @match AND p.co_no = @co_no
+    LIMIT @limit
+  `).all({ match, co_no: coNo, limit }) as ParcelRecord[];
+}
+
+/** Number of parcels imported, for one county or all of them */
+export function getParcelCount(coNo?: number): number {
+  const row = db.prepare('SELECT COUNT(*) as count FROM parcels WHERE @co_no IS NULL OR co_no = @co_no')
+    .get({ co_no: coNo ?? null }) as any;
+  return row?.count || 0;
+}
+
 /** Get the count of all known filings for the /health endpoint */
 export function getFilingCount(): number {
   const row = db.prepare('SELECT COUNT(*) as count FROM filings').get() as any;
@@ -81,7 +1195,9 @@ export function getFilingCount(): number {
 
 /** Close the database connection */
 export function closeDatabase(): void {
-  if (db) {
+  if (openCount === 0) return;
+  openCount--;
+  if (openCount === 0 && db) {
     db.close();
     log.info('Database connection closed');
   }
@@ -0,0 +1,103 @@
+/**
+ * Date helpers shared by the scraper, the CLI and the HTTP server.
+ *
+ * The county site takes dates as M/D/YYYY and prints them as MM/DD/YYYY.
+ * n8n tends to send ISO dates (YYYY-MM-DD). Everything is parsed into a
+ * plain calendar date (no time zone math) and formatted back as M/D/YYYY.
+ */
+
+export interface DateWindow {
+  start: string; // M/D/YYYY
+  end: string;   // M/D/YYYY
+}
+
+/** Parse "M/D/YYYY", "MM/DD/YYYY" or "YYYY-MM-DD" into a local Date at midnight.
+ *  Returns null if the string isn't a real calendar date. */
+export function parseDate(value: string): Date | null {
+  const trimmed = value.trim();
+  let year: number, month: number, day: number;
+
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+  } else if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  // Reject rollovers like 2/30/2026 → 3/2/2026
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/** Format a Date as M/D/YYYY — the format the search form expects */
+export function formatSiteDate(date: Date): string {
+  return `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear()}`;
+}
+
+/** Today's date as M/D/YYYY */
+export function today(): string {
+  return formatSiteDate(new Date());
+}
+
+/** Normalize any supported date string to M/D/YYYY (returns the input unchanged if unparseable) */
+export function normalizeDate(value: string): string {
+  const date = parseDate(value);
+  return date ? formatSiteDate(date) : value;
+}
+
+/** Any supported date string as YYYY-MM-DD, which sorts and compares as text.
+ *  Returns null if unparseable. */
+export function toIsoDate(value: string): string | null {
+  const date = parseDate(value);
+  if (!date) return null;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/** The date `days` calendar days before today, as M/D/YYYY */
+export function daysAgo(days: number): string {
+  return formatSiteDate(addDays(new Date(), -days));
+}
+
+/** Every calendar day from start to end (inclusive), as M/D/YYYY */
+export function eachDay(start: string, end: string): string[] {
+  const from = parseDate(start);
+  const to = parseDate(end);
+  if (!from || !to) return [];
+
+  const days: string[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    days.push(formatSiteDate(d));
+  }
+  return days;
+}
+
+/** Split a date range into consecutive windows of at most `chunkDays` days.
+ *  A chunkDays of 0 (or less) means "don't chunk" — one window for the whole range. */
+export function splitDateRange(start: string, end: string, chunkDays: number): DateWindow[] {
+  const days = eachDay(start, end);
+  if (days.length === 0) return [];
+  if (chunkDays <= 0) return [{ start: days[0], end: days[days.length - 1] }];
+
+  const windows: DateWindow[] = [];
+  for (let i = 0; i < days.length; i += chunkDays) {
+    const slice = days.slice(i, i + chunkDays);
+    windows.push({ start: slice[0], end: slice[slice.length - 1] });
+  }
+  return windows;
+}
+
+/** Human-readable label for a range: a single date, or "start - end" */
+export function describeRange(start: string, end: string): string {
+  return start === end ? start : `${start} - ${end}`;
+}
@@ -0,0 +1,63 @@
+/**
+ * DOCUMENT ARCHIVE
+ *
+ * Stores the recorded document (PDF or image) for each new filing under
+ * data/documents/<county>/<document_number>.<ext>, so nobody has to open the
+ * county site by hand to read it. The SHA-256 checksum is kept alongside the
+ * path in SQLite to detect a file that was replaced or corrupted on disk.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { paths } from './config.js';
+
+/** A document as downloaded from the county portal */
+export interface DocumentFile {
+  data: Buffer;
+  content_type: string;
+}
+
+/** Where an archived document ended up */
+export interface ArchivedDocument {
+  document_path: string;  // Relative to paths.data
+  document_sha256: string;
+  document_content_type: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'image/tiff': '.tif',
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+};
+
+/** File extension for a Content-Type header value (".bin" if unknown) */
+function extensionFor(contentType: string): string {
+  const mime = contentType.split(';')[0].trim().toLowerCase();
+  return EXTENSIONS[mime] ?? '.bin';
+}
+
+/** Write a downloaded document to the archive, replacing any earlier copy */
+export function archiveDocument(county: string, documentNumber: string, file: DocumentFile): ArchivedDocument {
+  // Document numbers are digits on every portal we know of, but never let one
+  // escape the archive directory
+  const safeNumber = documentNumber.replace(/[^\w-]/g, '_');
+  const relativePath = path.join('documents', county, `${safeNumber}${extensionFor(file.content_type)}`);
+  const absolutePath = path.join(paths.data, relativePath);
+
+  fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+  fs.writeFileSync(absolutePath, file.data);
+
+  return {
+    document_path: relativePath,
+    document_sha256: crypto.createHash('sha256').update(file.data).digest('hex'),
+    document_content_type: file.content_type.split(';')[0].trim(),
+  };
+}
+
+/** Absolute path of an archived document (document_path is stored relative to paths.data) */
+export function resolveArchivePath(documentPath: string): string {
+  return path.join(paths.data, documentPath);
+}
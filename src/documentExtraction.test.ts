@@ -0,0 +1,88 @@
+/**
+ * Tests for documentExtraction.ts — field parsing of a notice's text layer,
+ * fed sample text instead of a PDF.
+ *
+ * Usage: npm test
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractFields } from './documentExtraction.js';
+
+/** A typical Orange County Notice of Lis Pendens, one line per visual line */
+const NOTICE = [
+  'IN THE CIRCUIT COURT OF THE NINTH JUDICIAL CIRCUIT',
+  'IN AND FOR ORANGE COUNTY, FLORIDA',
+  'CASE NO.: 2026-CA-001234-O',
+  'WELLS FARGO BANK, N.A.,',
+  'Plaintiff,',
+  'v.',
+  'JOHN A. SMITH; MARY SMITH;',
+  'UNKNOWN TENANT IN POSSESSION,',
+  'Defendants.',
+  'NOTICE OF LIS PENDENS',
+  'TO DEFENDANTS ABOVE NAMED AND ALL OTHERS WHOM IT MAY CONCERN:',
+  'YOU ARE NOTIFIED of the institution of this action by Plaintiff, WELLS FARGO BANK, N.A., against',
+  'you seeking to foreclose a mortgage securing an unpaid principal balance of $245,300.17 on',
+  'the following property: LOT 7, RIDGEMOORE PHASE ONE, according to the plat thereof,',
+  'a/k/a 1234 Ridgemoore Dr, Orlando, FL 32818.',
+  'Recording fee paid: $10.00',
+].join('\n');
+
+describe('extractFields', () => {
+  test('caption block: plaintiff above "Plaintiff," and defendants between "v." and "Defendants."', () => {
+    const fields = extractFields(NOTICE);
+    assert.deepEqual(fields.plaintiff, { value: 'WELLS FARGO BANK, N.A.', confidence: 0.85 });
+    assert.deepEqual(fields.defendants, {
+      value: ['JOHN A. SMITH', 'MARY SMITH', 'UNKNOWN TENANT IN POSSESSION'],
+      confidence: 0.8,
+    });
+  });
+
+  test('plaintiff from the prose when there is no caption', () => {
+    const fields = extractFields('This action was brought by the Plaintiff, ACME HOA, INC., against the owners.');
+    assert.deepEqual(fields.plaintiff, { value: 'ACME HOA, INC.', confidence: 0.6 });
+  });
+
+  test('labelled case number', () => {
+    assert.deepEqual(extractFields(NOTICE).case_number, { value: '2026-CA-001234-O', confidence: 0.95 });
+  });
+
+  test('bare case number, matched by shape', () => {
+    const fields = extractFields('Filed in 2026-CA-004321-O before the court.');
+    assert.deepEqual(fields.case_number, { value: '2026-CA-004321-O', confidence: 0.7 });
+  });
+
+  test('"a/k/a" address, even across a line break', () => {
+    assert.deepEqual(extractFields(NOTICE).property_address, {
+      value: '1234 RIDGEMOORE DR, ORLANDO, FL 32818',
+      confidence: 0.9,
+    });
+    const wrapped = extractFields('commonly known as 55 Lake St,\nWinter Park, FL 32789-1234');
+    assert.equal(wrapped.property_address?.value, '55 LAKE ST, WINTER PARK, FL 32789-1234');
+  });
+
+  test('an unlabelled address gets a lower confidence', () => {
+    const fields = extractFields('Mail to 900 Main St, Apopka, FL 32703');
+    assert.deepEqual(fields.property_address, { value: '900 MAIN ST, APOPKA, FL 32703', confidence: 0.55 });
+  });
+
+  test('principal amount over any other amount in the notice', () => {
+    assert.deepEqual(extractFields(NOTICE).amount, { value: 245300.17, confidence: 0.8 });
+  });
+
+  test('without a label, the largest amount is the best guess', () => {
+    assert.deepEqual(extractFields('Fees $25.00 and $1,500 paid').amount, { value: 1500, confidence: 0.4 });
+  });
+
+  test('image-only document: no text, no fields', () => {
+    const fields = extractFields('');
+    assert.equal(fields.text_length, 0);
+    assert.equal(fields.plaintiff, null);
+    assert.equal(fields.defendants, null);
+    assert.equal(fields.case_number, null);
+    assert.equal(fields.property_address, null);
+    assert.equal(fields.amount, null);
+    assert.ok(!Number.isNaN(Date.parse(fields.extracted_at)));
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * DOCUMENT TEXT EXTRACTION
+ *
+ * Reads the text layer of an archived Lis Pendens PDF and pulls out the
+ * fields acquisitions needs: plaintiff, defendant(s), case number, property
+ * address and amount. Runs entirely locally (pdf.js, no external service),
+ * so it also works for filings whose ArcGIS owner-name lookup fails — the
+ * "a/k/a" address in the notice is often the only address we can get.
+ *
+ * Scanned image-only PDFs have no text layer; they come back with no fields
+ * rather than an error.
+ *
+ * Every field carries a confidence between 0 and 1: high when it was found
+ * next to the label a Florida notice uses ("CASE NO.", "Plaintiff,"), lower
+ * when it was only matched by shape somewhere in the text.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+// pdf.js needs its bundled metrics for the 14 standard PDF fonts (Helvetica,
+// Times, ...) which recorded documents use all the time
+const require = createRequire(import.meta.url);
+const standardFontDataUrl = path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ExtractedField<T = string> {
+  value: T;
+  confidence: number; // 0..1
+}
+
+export interface DocumentExtraction {
+  plaintiff: ExtractedField | null;
+  defendants: ExtractedField<string[]> | null;
+  case_number: ExtractedField | null;
+  property_address: ExtractedField | null;
+  amount: ExtractedField<number> | null;
+  /** Characters of text found — 0 means an image-only PDF */
+  text_length: number;
+  extracted_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// PDF text layer
+// ---------------------------------------------------------------------------
+
+/** Read all text from a PDF, one line per visual line, pages separated by a blank line */
+export async function readPdfText(filePath: string): Promise<string> {
+  const data = new Uint8Array(await fs.promises.readFile(filePath));
+  const pdf = await getDocument({ data, standardFontDataUrl, isEvalSupported: false, useSystemFonts: false }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      let line = '';
+      const lines: string[] = [];
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        line += item.str;
+        if (item.hasEOL) {
+          lines.push(line);
+          line = '';
+        }
+      }
+      if (line) lines.push(line);
+      pages.push(lines.map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n'));
+    }
+    return pages.join('\n\n');
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Field parsing
+// ---------------------------------------------------------------------------
+
+function clean(value: string): string {
+  return value.replace(/\s+/g, ' ').replace(/^[\s,;:.]+|[\s,;:]+$/g, '').trim();
+}
+
+/** CASE NO.: 2026-CA-001234-O */
+function findCaseNumber(text: string): ExtractedField | null {
+  const casePattern = /\d{2,4}[- ]?[A-Z]{2}[- ]?\d{3,7}(?:[- ][A-Z0-9]{1,4})*/;
+
+  const labelled = text.match(new RegExp(`case\\s*(?:no\\.?|number|#)\\s*[:.]?\\s*(${casePattern.source})`, 'i'));
+  if (labelled) return { value: clean(labelled[1]), confidence: 0.95 };
+
+  const bare = text.match(/\b(?:19|20)\d{2}-?(?:CA|CC|CP|DR)-?\d{3,7}(?:-[A-Z0-9]{1,4})*\b/i);
+  if (bare) return { value: bare[0], confidence: 0.7 };
+
+  return null;
+}
+
+/** The caption block: "WELLS FARGO BANK, N.A.,\nPlaintiff,\nv.\nJOHN DOE; JANE DOE,\nDefendants." */
+function findPlaintiff(text: string): ExtractedField | null {
+  // Lines between the last caption header line and the "Plaintiff," marker
+  const caption = text.match(/(?:^|\n)((?:(?!plaintiff)[^\n]+\n){1,4}?)\s*plaintiffs?\s*[,.]?\s*(?:\n|$)/i);
+  if (caption) {
+    const lines = caption[1].split('\n').map(clean).filter(Boolean)
+      // Drop court / case-number header lines caught in the window
+      .filter(l => !/circuit court|judicial circuit|county,? florida|case\s*no|division/i.test(l));
+    if (lines.length > 0) return { value: clean(lines.join(' ')), confidence: 0.85 };
+  }
+
+  // "...institution of this action by Plaintiff, WELLS FARGO BANK, N.A., against..."
+  const prose = text.match(/by\s+(?:the\s+)?plaintiff,?\s+([^\n]+?),?\s+against/i);
+  if (prose) return { value: clean(prose[1]), confidence: 0.6 };
+
+  return null;
+}
+
+/** Everything between "v." / "vs." and the "Defendant(s)." marker, split on ";" */
+function findDefendants(text: string): ExtractedField<string[]> | null {
+  const block = text.match(/(?:^|\n)\s*vs?\.?\s*\n([\s\S]{1,1500}?)\n?\s*defendants?\s*[.,]/i);
+  if (!block) return null;
+
+  const names = block[1]
+    .split(/;|\n(?=[A-Z])/)
+    .map(clean)
+    .map(n => n.replace(/^and\s+/i, ''))
+    .filter(n => n.length > 1);
+  if (names.length === 0) return null;
+
+  return { value: names, confidence: 0.8 };
+}
+
+/** "a/k/a 123 MAIN ST, ORLANDO, FL 32801" or "Property Address: ..." */
+function findPropertyAddress(text: string): ExtractedField | null {
+  const address = /(\d{1,6}\s+[A-Z0-9 .'#-]+?,?\s+[A-Z .'-]+?,?\s+(?:FL|FLORIDA)\.?\s+\d{5}(?:-\d{4})?)/i;
+  const flat = text.replace(/\s*\n\s*/g, ' ');
+
+  const labelled = flat.match(new RegExp(
+    `(?:a/k/a|aka|property address|commonly known as|street address)\\s*:?\\s*${address.source}`, 'i'
+  ));
+  if (labelled) return { value: clean(labelled[1]).toUpperCase(), confidence: 0.9 };
+
+  const bare = flat.match(address);
+  if (bare) return { value: clean(bare[1]).toUpperCase(), confidence: 0.55 };
+
+  return null;
+}
+
+/** A dollar amount — preferably the one next to "principal", "sum" or "amount" */
+function findAmount(text: string): ExtractedField<number> | null {
+  const money = /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{2}))?/;
+  const flat = text.replace(/\s*\n\s*/g, ' ');
+  const toNumber = (m: RegExpMatchArray) => Number(`${m[1].replace(/,/g, '')}.${m[2] ?? '00'}`);
+
+  const labelled = flat.match(new RegExp(
+    `(?:principal|amount|sum|indebtedness|balance)[^$.]{0,60}${money.source}`, 'i'
+  ));
+  if (labelled) return { value: toNumber(labelled), confidence: 0.8 };
+
+  // Otherwise the largest amount in the document is the best guess
+  const all = [...flat.matchAll(new RegExp(money.source, 'g'))].map(toNumber);
+  if (all.length > 0) return { value: Math.max(...all), confidence: 0.4 };
+
+  return null;
+}
+
+/** Parse a Lis Pendens' text into structured fields with per-field confidence */
+export function extractFields(text: string): DocumentExtraction {
+  return {
+    plaintiff: findPlaintiff(text),
+    defendants: findDefendants(text),
+    case_number: findCaseNumber(text),
+    property_address: findPropertyAddress(text),
+    amount: findAmount(text),
+    text_length: text.length,
+    extracted_at: new Date().toISOString(),
+  };
+}
+
+/** Read an archived PDF and extract its fields */
+export async function extractDocument(filePath: string): Promise<DocumentExtraction> {
+  return extractFields(await readPdfText(filePath));
+}
@@ -0,0 +1,55 @@
+/**
+ * EXPORT SCRIPT
+ *
+ * Writes stored filings to a CSV, XLSX or JSON Lines file in the Google Sheet
+ * column layout, for loading into a dialer or mail-merge tool. Takes the same
+ * filters as GET /filings and GET /export.
+ *
+ * Usage: npm run export -- [--format csv|xlsx|ndjson] [--out file] [filters]
+ *
+ *   --format   Defaults to csv
+ *   --out      Defaults to filings-<today>.<format> in the current directory
+ *   filters    --county, --start-date, --end-date, --document-type (comma list),
+ *              --grantor, --grantee, --status (lead status), --case-status
+ */
+
+import fs from 'fs';
+import { once } from 'events';
+import { initDatabase, closeDatabase } from './database.js';
+import { parseFilingFilters, exportRows, writeExport, EXPORT_FORMATS, type ExportFormat } from './export.js';
+import { toIsoDate, today } from './dates.js';
+import { log } from './logger.js';
+
+async function main(): Promise<void> {
+  // --start-date 2026-01-01 / --start-date=2026-01-01 → start_date=2026-01-01
+  const args = process.argv.slice(2);
+  const params = new URLSearchParams();
+  for (let i = 0; i < args.length; i++) {
+    const match = args[i].match(/^--([a-z-]+)(?:=(.*))?$/);
+    if (!match) throw new Error(`Unexpected argument: ${args[i]}`);
+    params.set(match[1].replace(/-/g, '_'), match[2] ?? args[++i] ?? '');
+  }
+
+  const format = (params.get('format') || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new Error(`--format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+  const filters = parseFilingFilters(params);
+  const file = params.get('out') || `filings-${toIsoDate(today())}.${format}`;
+
+  initDatabase();
+  try {
+    const out = fs.createWriteStream(file);
+    const count = await writeExport(out, format, exportRows(filters));
+    out.end();
+    await once(out, 'finish');
+    log.success(`Exported ${count} row(s) to ${file}`);
+  } finally {
+    closeDatabase();
+  }
+}
+
+main().catch(error => {
+  log.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,240 @@
+/**
+ * LEAD EXPORT
+ *
+ * Writes stored filings as CSV, XLSX or JSON Lines for a dialer or
+ * mail-merge tool. The columns follow the "OC Lis Pendens Leads" Google Sheet
+ * rows the n8n workflows write (n8n-workflow/fl-parcel-lookup-nodes.js) and
+ * the Tracerfy receiver updates (n8n-workflow/README-tracerfy-receiver.md), so
+ * an export can be pasted under the existing rows — one row per person
+ * grantee, keyed by the same Match Key — followed by the enrichment columns
+ * the sheet doesn't have.
+ *
+ * Used by GET /export and `npm run export`. Filters are the GET /filings ones.
+ */
+
+import type { Writable } from 'stream';
+import {
+  getFilings, getLeadRecord, LEAD_STATUSES,
+  type FilingQuery, type LeadRecord, type LeadStatus, type SkipTraceStatus,
+} from './database.js';
+import { CASE_STATUSES, type CaseStatus } from './caseTracking.js';
+import { parseList } from './config.js';
+import { toIsoDate } from './dates.js';
+import { buildXlsx, type CellValue } from './xlsx.js';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'ndjson'];
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson',
+};
+
+/** Google Sheet columns, in sheet order */
+const SHEET_COLUMNS = [
+  'Lead Status', 'Date Found', 'Document Number', 'Grantee Name', 'Grantor Name', 'Legal Description',
+  'Property Address', 'Phone 1', 'Phone 2', 'Email', 'Mailing Address', 'Skip Trace Status',
+  'CRM Status', 'Notes', 'Date Added to CRM', 'Match Key',
+] as const;
+
+/** Columns the database has and the sheet doesn't */
+const ENRICHMENT_COLUMNS = [
+  'County', 'Recording Date', 'Document Type', 'Case Number', 'Foreclosure Kind', 'Plaintiff',
+  'Lead Score', 'Case Status', 'Parcel Number', 'Just Value', 'Homestead',
+] as const;
+
+export const EXPORT_COLUMNS = [...SHEET_COLUMNS, ...ENRICHMENT_COLUMNS];
+
+export type ExportRow = Record<(typeof EXPORT_COLUMNS)[number], CellValue>;
+
+const SKIP_TRACE_LABELS: Record<SkipTraceStatus, string> = {
+  pending: 'Pending',
+  traced: 'Traced',
+  no_results: 'No Results',
+};
+
+// ---------------------------------------------------------------------------
+// Filters
+// ---------------------------------------------------------------------------
+
+export type FilingFilters = Omit<FilingQuery, 'limit' | 'cursor'>;
+
+/** Read the GET /filings filters from a query string. Throws on a bad value. */
+export function parseFilingFilters(params: URLSearchParams): FilingFilters {
+  const date = (name: string): string | undefined => {
+    const value = params.get(name);
+    if (!value) return undefined;
+    const iso = toIsoDate(value);
+    if (!iso) throw new Error(`${name} must be a date (YYYY-MM-DD or M/D/YYYY)`);
+    return iso;
+  };
+
+  const status = params.get('status') || undefined;
+  if (status && !LEAD_STATUSES.includes(status as LeadStatus)) {
+    throw new Error(`status must be one of: ${LEAD_STATUSES.join(', ')}`);
+  }
+  const caseStatus = params.get('case_status') || undefined;
+  if (caseStatus && !CASE_STATUSES.includes(caseStatus as CaseStatus)) {
+    throw new Error(`case_status must be one of: ${CASE_STATUSES.join(', ')}`);
+  }
+
+  return {
+    county: params.get('county') || undefined,
+    startDate: date('start_date'),
+    endDate: date('end_date'),
+    documentTypes: params.get('document_type') ? parseList(params.get('document_type')!) : undefined,
+    grantor: params.get('grantor') || undefined,
+    grantee: params.get('grantee') || undefined,
+    leadStatus: status as LeadStatus | undefined,
+    caseStatus: caseStatus as CaseStatus | undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Rows
+// ---------------------------------------------------------------------------
+
+/** "under_contract" → "Under Contract" */
+function label(value: string): string {
+  return value.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+}
+
+/** The sheet's rows for one lead: one per person grantee (with their skip-trace
+ *  contact), or a single row when every grantee is a business */
+function toRows(record: LeadRecord): ExportRow[] {
+  const { filing, property } = record;
+  const lookup = filing.address_lookup ?? null;
+
+  const street = property?.address || lookup?.property_address || '';
+  const propertyAddress = street
+    ? [street, property?.city || lookup?.property_city, property?.state || 'FL', property?.zip || lookup?.property_zip]
+      .filter(Boolean).join(', ')
+    : '';
+
+  const notes = [filing.document_type];
+  if (lookup && lookup.lookup_status !== 'matched') notes.push(`No address (${lookup.lookup_status})`);
+
+  const base = {
+    'Lead Status': label(filing.lead_status ?? 'new'),
+    'Date Found': filing.recording_date,
+    'Document Number': filing.document_number,
+    'Grantor Name': filing.grantor_name,
+    'Legal Description': filing.legal_description,
+    'Property Address': propertyAddress,
+    // Pushing to a CRM happens outside this service
+    'CRM Status': null,
+    'Date Added to CRM': null,
+    'Notes': notes.join(' — '),
+    'County': filing.county,
+    'Recording Date': filing.recorded_on ?? null,
+    'Document Type': filing.document_type,
+    'Case Number': filing.case_number ?? null,
+    'Foreclosure Kind': filing.foreclosure_kind ? label(filing.foreclosure_kind) : null,
+    'Plaintiff': filing.normalized_plaintiff ?? null,
+    'Lead Score': filing.lead_score ?? null,
+    'Case Status': filing.case_status ? label(filing.case_status) : null,
+    'Parcel Number': property?.parcel_number ?? null,
+    'Just Value': property?.just_value ?? null,
+    'Homestead': property?.homestead === null || property?.homestead === undefined ? null : property.homestead ? 'Yes' : 'No',
+  };
+
+  const people = record.parties.filter(p => p.role === 'grantee' && p.kind === 'person');
+  if (people.length === 0) {
+    return [{
+      ...base,
+      'Grantee Name': filing.grantee_name,
+      'Phone 1': null, 'Phone 2': null, 'Email': null, 'Mailing Address': null,
+      'Skip Trace Status': null,
+      'Match Key': null,
+    }];
+  }
+
+  return people.map(person => {
+    const contact = record.contacts.find(c => c.party_id === person.id);
+    // Same key the n8n workflows match Tracerfy results on: ADDRESS|FIRST_NAME|LAST_NAME.
+    // Without an address there's nothing for Tracerfy to have traced.
+    const matchKey = street ? [street, person.first_name ?? '', person.last_name ?? ''].join('|').toUpperCase() : null;
+    return {
+      ...base,
+      'Grantee Name': person.name,
+      'Phone 1': contact?.phones[0] ?? null,
+      'Phone 2': contact?.phones[1] ?? null,
+      'Email': contact?.emails[0] ?? null,
+      'Mailing Address': contact?.mailing_address ?? null,
+      'Skip Trace Status': SKIP_TRACE_LABELS[contact?.skip_trace_status ?? 'pending'],
+      'Match Key': matchKey,
+    };
+  });
+}
+
+/** Every matching filing's rows, most recently recorded first, read a page at
+ *  a time. The database must be open. */
+export function* exportRows(filters: FilingFilters = {}): Generator<ExportRow> {
+  let cursor: string | undefined;
+  do {
+    const page = getFilings({ ...filters, limit: 500, cursor });
+    for (const filing of page.filings) {
+      const record = getLeadRecord(filing.county, filing.document_number);
+      if (record) yield* toRows(record);
+    }
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor);
+}
+
+// ---------------------------------------------------------------------------
+// Writers
+// ---------------------------------------------------------------------------
+
+function csvField(value: CellValue): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Write the rows to `out` in the given format. CSV and JSON Lines stream row
+ *  by row; XLSX is assembled in memory and written at the end. Returns the row count. */
+export async function writeExport(
+  out: Writable,
+  format: ExportFormat,
+  rows: Iterable<ExportRow>,
+): Promise<number> {
+  // A reader that goes away (an HTTP client disconnecting) never drains, so
+  // close and error end the wait too
+  const write = (chunk: string | Buffer) => new Promise<void>((resolve, reject) => {
+    if (out.destroyed) return reject(new Error('Output closed before the export finished'));
+    if (out.write(chunk)) return resolve();
+    const settle = (error?: Error) => {
+      out.off('drain', onDrain);
+      out.off('close', onClose);
+      out.off('error', settle);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onDrain = () => settle();
+    const onClose = () => settle(new Error('Output closed before the export finished'));
+    out.on('drain', onDrain);
+    out.on('close', onClose);
+    out.on('error', settle);
+  });
+
+  let count = 0;
+  if (format === 'xlsx') {
+    const cells: CellValue[][] = [];
+    for (const row of rows) {
+      cells.push(EXPORT_COLUMNS.map(column => row[column]));
+      count++;
+    }
+    await write(buildXlsx('Leads', EXPORT_COLUMNS, cells));
+    return count;
+  }
+
+  if (format === 'csv') await write(EXPORT_COLUMNS.map(csvField).join(',') + '\r\n');
+  for (const row of rows) {
+    await write(format === 'csv'
+      ? EXPORT_COLUMNS.map(column => csvField(row[column])).join(',') + '\r\n'
+      : JSON.stringify(row) + '\n');
+    count++;
+  }
+  return count;
+}
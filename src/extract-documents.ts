@@ -0,0 +1,49 @@
+/**
+ * DOCUMENT EXTRACTION SCRIPT
+ *
+ * Runs text extraction over PDFs that are already in the archive — for
+ * documents archived before extraction existed, or after the parsing rules
+ * change. New filings are extracted automatically during each scrape.
+ *
+ * Usage: npm run extract-documents            (only PDFs not yet extracted)
+ *        npm run extract-documents -- --all   (re-extract every archived PDF)
+ */
+
+import { initDatabase, closeDatabase, getFilingsToExtract, saveDocumentExtraction } from './database.js';
+import { extractDocument } from './documentExtraction.js';
+import { resolveArchivePath } from './documentArchive.js';
+import { log } from './logger.js';
+
+async function main(): Promise<void> {
+  const includeExtracted = process.argv.includes('--all');
+
+  initDatabase();
+  try {
+    const filings = getFilingsToExtract(includeExtracted);
+    log.info(`${filings.length} archived PDF(s) to extract`);
+
+    let extracted = 0;
+    for (const filing of filings) {
+      try {
+        const extraction = await extractDocument(resolveArchivePath(filing.document_path));
+        saveDocumentExtraction(filing, extraction);
+        extracted++;
+        if (extraction.text_length === 0) {
+          log.warn(`${filing.document_number}: no text layer (scanned image?)`);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.warn(`${filing.document_number}: ${message}`);
+      }
+    }
+
+    log.success(`Extracted ${extracted} of ${filings.length} document(s)`);
+  } finally {
+    closeDatabase();
+  }
+}
+
+main().catch(error => {
+  log.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
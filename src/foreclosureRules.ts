@@ -0,0 +1,87 @@
+import type { ForeclosureKind } from './classification.js';
+
+// ---------------------------------------------------------------------------
+// Foreclosure classification rules
+// ---------------------------------------------------------------------------
+// Maintained by hand. To teach the classifier a new lender or association,
+// add it here and run `npm run classify-filings` to re-tag stored filings.
+//
+// Rules are tried in order and the first match wins:
+//   1. documentTypeRules — the recorded document type alone decides the kind
+//   2. knownPlaintiffs   — a named lender, servicer or agency, which also
+//                          gives the plaintiff's canonical name
+//   3. plaintiffPatterns — generic wording ("HOMEOWNERS ASSOCIATION", "BANK")
+// Anything left over is "other". Patterns run against the upper-cased grantor.
+// ---------------------------------------------------------------------------
+
+export interface DocumentTypeRule {
+  kind: ForeclosureKind;
+  pattern: RegExp;
+}
+
+export interface KnownPlaintiff {
+  /** Canonical name stored as normalized_plaintiff */
+  name: string;
+  kind: ForeclosureKind;
+  patterns: RegExp[];
+}
+
+export interface PlaintiffPattern {
+  kind: ForeclosureKind;
+  pattern: RegExp;
+}
+
+export const documentTypeRules: DocumentTypeRule[] = [
+  { kind: 'tax',              pattern: /TAX DEED|TAX CERTIFICATE/i },
+  { kind: 'code_enforcement', pattern: /CODE ENFORCEMENT|CODE VIOLATION/i },
+];
+
+export const knownPlaintiffs: KnownPlaintiff[] = [
+  // --- Banks ---
+  { name: 'Wells Fargo',              kind: 'mortgage', patterns: [/\bWELLS FARGO\b/] },
+  { name: 'Bank of America',          kind: 'mortgage', patterns: [/\bBANK OF AMERICA\b/] },
+  { name: 'JPMorgan Chase',           kind: 'mortgage', patterns: [/\bJP ?MORGAN\b/, /\bCHASE (?:BANK|HOME)\b/] },
+  { name: 'U.S. Bank',                kind: 'mortgage', patterns: [/\bU\.? ?S\.? BANK\b/, /\bUS BANK\b/] },
+  { name: 'Deutsche Bank',            kind: 'mortgage', patterns: [/\bDEUTSCHE BANK\b/] },
+  { name: 'Bank of New York Mellon',  kind: 'mortgage', patterns: [/\bBANK OF NEW YORK\b/, /\bBNY MELLON\b/] },
+  { name: 'Citibank',                 kind: 'mortgage', patterns: [/\bCITI ?BANK\b/, /\bCITIMORTGAGE\b/] },
+  { name: 'HSBC',                     kind: 'mortgage', patterns: [/\bHSBC\b/] },
+  { name: 'Truist',                   kind: 'mortgage', patterns: [/\bTRUIST\b/, /\bSUNTRUST\b/, /\bBB ?& ?T\b/] },
+  { name: 'Regions Bank',             kind: 'mortgage', patterns: [/\bREGIONS BANK\b/] },
+  { name: 'PNC Bank',                 kind: 'mortgage', patterns: [/\bPNC\b/] },
+  { name: 'Wilmington Trust',         kind: 'mortgage', patterns: [/\bWILMINGTON (?:SAVINGS FUND|TRUST)\b/] },
+  { name: 'MidFirst Bank',            kind: 'mortgage', patterns: [/\bMIDFIRST\b/] },
+
+  // --- Non-bank lenders and servicers ---
+  { name: 'Mr. Cooper',               kind: 'mortgage', patterns: [/\bNATIONSTAR\b/, /\bMR\.? COOPER\b/] },
+  { name: 'Lakeview Loan Servicing',  kind: 'mortgage', patterns: [/\bLAKEVIEW LOAN\b/] },
+  { name: 'PennyMac',                 kind: 'mortgage', patterns: [/\bPENNYMAC\b/, /\bPENNY MAC\b/] },
+  { name: 'Freedom Mortgage',         kind: 'mortgage', patterns: [/\bFREEDOM MORTGAGE\b/] },
+  { name: 'Rocket Mortgage',          kind: 'mortgage', patterns: [/\bROCKET MORTGAGE\b/, /\bQUICKEN LOANS\b/] },
+  { name: 'Newrez',                   kind: 'mortgage', patterns: [/\bNEWREZ\b/, /\bSHELLPOINT\b/] },
+  { name: 'Carrington Mortgage',      kind: 'mortgage', patterns: [/\bCARRINGTON MORTGAGE\b/] },
+  { name: 'Specialized Loan Servicing', kind: 'mortgage', patterns: [/\bSPECIALIZED LOAN\b/] },
+  { name: 'Select Portfolio Servicing', kind: 'mortgage', patterns: [/\bSELECT PORTFOLIO\b/] },
+  { name: 'Ocwen / PHH',              kind: 'mortgage', patterns: [/\bOCWEN\b/, /\bPHH MORTGAGE\b/] },
+  { name: 'Cenlar',                   kind: 'mortgage', patterns: [/\bCENLAR\b/] },
+  { name: 'LoanDepot',                kind: 'mortgage', patterns: [/\bLOANDEPOT\b/, /\bLOAN DEPOT\b/] },
+  { name: 'Guild Mortgage',           kind: 'mortgage', patterns: [/\bGUILD MORTGAGE\b/] },
+  { name: 'Planet Home Lending',      kind: 'mortgage', patterns: [/\bPLANET HOME\b/] },
+  { name: 'Rushmore Loan Management', kind: 'mortgage', patterns: [/\bRUSHMORE\b/] },
+  { name: 'U.S. Bank Trust (LSF)',    kind: 'mortgage', patterns: [/\bLSF\d+ MASTER PARTICIPATION\b/] },
+
+  // --- Government-backed ---
+  { name: 'Fannie Mae',               kind: 'mortgage', patterns: [/\bFEDERAL NATIONAL MORTGAGE\b/, /\bFANNIE MAE\b/] },
+  { name: 'Freddie Mac',              kind: 'mortgage', patterns: [/\bFEDERAL HOME LOAN MORTGAGE\b/, /\bFREDDIE MAC\b/] },
+  { name: 'HUD',                      kind: 'mortgage', patterns: [/\bSECRETARY OF HOUSING\b/, /\bHOUSING AND URBAN DEVELOPMENT\b/] },
+  { name: 'VA',                       kind: 'mortgage', patterns: [/\bSECRETARY OF VETERANS\b/] },
+  { name: 'Florida Housing Finance',  kind: 'mortgage', patterns: [/\bFLORIDA HOUSING FINANCE\b/] },
+];
+
+export const plaintiffPatterns: PlaintiffPattern[] = [
+  { kind: 'condo',            pattern: /\bCONDOMINIUM\b|\bCONDO\b/ },
+  { kind: 'hoa',              pattern: /\bHOMEOWNERS?\b|\bHOME OWNERS\b|\bH\.?O\.?A\b|\bPROPERTY OWNERS\b|\bCOMMUNITY ASSOCIATION\b|\bMASTER ASSOCIATION\b|\bMAINTENANCE ASSOCIATION\b|\bCOMMUNITY DEVELOPMENT DISTRICT\b|\bVILLAGE ASSOCIATION\b/ },
+  { kind: 'tax',              pattern: /\bTAX COLLECTOR\b|\bTAX CERTIFICATE\b/ },
+  { kind: 'code_enforcement', pattern: /\bCOUNTY\b|\bCITY OF\b|\bTOWN OF\b|\bVILLAGE OF\b|\bSTATE OF FLORIDA\b/ },
+  { kind: 'mortgage',         pattern: /\bBANK\b|\bMORTGAGE\b|\bLENDING\b|\bLOANS?\b|\bFINANCIAL\b|\bFUNDING\b|\bCREDIT UNION\b|\bSAVINGS\b|\bSERVICING\b|\bN\.?A\.?$|\bAS TRUSTEE\b|\bTRUST COMPANY\b/ },
+];
@@ -0,0 +1,29 @@
+// ---------------------------------------------------------------------------
+// Florida court / county holidays
+// ---------------------------------------------------------------------------
+// Maintained by hand. Days the Clerk of Courts and County Comptroller offices
+// are closed, so nothing is recorded and the scheduler doesn't scrape (see
+// holidays.ts). Check the courts' published calendar each December.
+//
+// A fixed-date holiday that falls on a Saturday is observed the Friday
+// before; on a Sunday, the Monday after. One-off closures (hurricanes,
+// declared days of mourning) go in SCHEDULE_EXTRA_CLOSURES instead.
+// ---------------------------------------------------------------------------
+
+export type HolidayRule =
+  /** Same date every year */
+  | { name: string; month: number; day: number }
+  /** The nth weekday of the month (0 = Sunday); nth -1 is the last one */
+  | { name: string; month: number; weekday: number; nth: number; daysAfter?: number };
+
+export const holidayRules: HolidayRule[] = [
+  { name: "New Year's Day",              month: 1,  day: 1 },
+  { name: 'Martin Luther King Jr. Day',  month: 1,  weekday: 1, nth: 3 },
+  { name: 'Memorial Day',                month: 5,  weekday: 1, nth: -1 },
+  { name: 'Independence Day',            month: 7,  day: 4 },
+  { name: 'Labor Day',                   month: 9,  weekday: 1, nth: 1 },
+  { name: 'Veterans Day',                month: 11, day: 11 },
+  { name: 'Thanksgiving Day',            month: 11, weekday: 4, nth: 4 },
+  { name: 'Friday after Thanksgiving',   month: 11, weekday: 4, nth: 4, daysAfter: 1 },
+  { name: 'Christmas Day',               month: 12, day: 25 },
+];
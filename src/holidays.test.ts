@@ -0,0 +1,87 @@
+/**
+ * Tests for holidays.ts — observed dates of the rules in holidayRules.ts and
+ * business-day arithmetic for the scheduler and the rolling re-scan.
+ *
+ * Usage: npm test
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { holidaysInYear, closureOn, isBusinessDay, businessDaysBefore } from './holidays.js';
+
+function observed(year: number, name: string): string | undefined {
+  return holidaysInYear(year).find(h => h.name === name)?.date;
+}
+
+// ---------------------------------------------------------------------------
+// Observed holidays
+// ---------------------------------------------------------------------------
+
+describe('holidaysInYear', () => {
+  test('Independence Day on a Saturday is observed the Friday before', () => {
+    assert.equal(observed(2026, 'Independence Day'), '2026-07-03');
+  });
+
+  test('Independence Day on a Sunday is observed the Monday after', () => {
+    assert.equal(observed(2027, 'Independence Day'), '2027-07-05');
+  });
+
+  test('Christmas on a weekend moves to the nearest weekday', () => {
+    assert.equal(observed(2021, 'Christmas Day'), '2021-12-24'); // Saturday
+    assert.equal(observed(2022, 'Christmas Day'), '2022-12-26'); // Sunday
+  });
+
+  test("New Year's Day on a Saturday is observed on December 31 of the year before", () => {
+    const newYears = (year: number) => holidaysInYear(year).filter(h => h.name === "New Year's Day").map(h => h.date);
+    assert.deepEqual(newYears(2021), ['2021-01-01', '2021-12-31']);
+    assert.deepEqual(newYears(2022), []);
+  });
+
+  test('Thanksgiving is the fourth Thursday, and the Friday after is closed too', () => {
+    assert.equal(observed(2026, 'Thanksgiving Day'), '2026-11-26');
+    assert.equal(observed(2026, 'Friday after Thanksgiving'), '2026-11-27');
+    assert.equal(observed(2025, 'Friday after Thanksgiving'), '2025-11-28');
+  });
+
+  test('last-weekday rules: Memorial Day', () => {
+    assert.equal(observed(2026, 'Memorial Day'), '2026-05-25');
+  });
+
+  test('every rule once, in date order', () => {
+    const dates = holidaysInYear(2026).map(h => h.date);
+    assert.equal(dates.length, 9);
+    assert.deepEqual(dates, [...dates].sort());
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Business days
+// ---------------------------------------------------------------------------
+
+describe('isBusinessDay', () => {
+  test('weekends and holidays are closed', () => {
+    assert.equal(isBusinessDay('2026-11-25'), true);  // Wednesday
+    assert.equal(isBusinessDay('2026-11-27'), false); // Friday after Thanksgiving
+    assert.equal(isBusinessDay('2026-11-28'), false); // Saturday
+    assert.equal(closureOn('2026-11-27'), 'Friday after Thanksgiving');
+  });
+});
+
+describe('businessDaysBefore', () => {
+  test('skips the Thanksgiving holidays and the weekend', () => {
+    assert.equal(businessDaysBefore('2026-11-30', 1), '2026-11-25');
+    assert.equal(businessDaysBefore('2026-11-30', 2), '2026-11-24');
+  });
+
+  test("crosses the year boundary over New Year's Day", () => {
+    assert.equal(businessDaysBefore('2027-01-04', 2), '2026-12-30');
+  });
+
+  test("skips a New Year's Day observed in the year before", () => {
+    assert.equal(businessDaysBefore('2022-01-03', 1), '2021-12-30');
+  });
+
+  test('0 days is the date itself', () => {
+    assert.equal(businessDaysBefore('2026-11-28', 0), '2026-11-28');
+  });
+});
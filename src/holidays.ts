@@ -0,0 +1,70 @@
+/**
+ * BUSINESS DAYS
+ *
+ * Whether the county recording offices are open on a date: not a weekend,
+ * not a Florida court/county holiday (rules in holidayRules.ts), and not one
+ * of the SCHEDULE_EXTRA_CLOSURES. Used by the scheduler and by the rolling
+ * re-scan (RESCAN_BUSINESS_DAYS). Dates are YYYY-MM-DD calendar dates.
+ */
+
+import { holidayRules, type HolidayRule } from './holidayRules.js';
+import { schedule as scheduleConfig } from './config.js';
+import { toIsoDate } from './dates.js';
+
+function iso(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** The date a rule falls on in `year` (observed date for fixed-date holidays) */
+function holidayDate(rule: HolidayRule, year: number): string {
+  if ('day' in rule) {
+    const date = new Date(Date.UTC(year, rule.month - 1, rule.day));
+    const weekday = date.getUTCDay();
+    if (weekday === 6) date.setUTCDate(date.getUTCDate() - 1);
+    if (weekday === 0) date.setUTCDate(date.getUTCDate() + 1);
+    return iso(date);
+  }
+
+  let date: Date;
+  if (rule.nth > 0) {
+    date = new Date(Date.UTC(year, rule.month - 1, 1));
+    date.setUTCDate(1 + ((rule.weekday - date.getUTCDay() + 7) % 7) + (rule.nth - 1) * 7);
+  } else {
+    date = new Date(Date.UTC(year, rule.month, 0)); // Last day of the month
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() - rule.weekday + 7) % 7));
+  }
+  date.setUTCDate(date.getUTCDate() + (rule.daysAfter ?? 0));
+  return iso(date);
+}
+
+/** Every holiday observed in `year`, in date order */
+export function holidaysInYear(year: number): Array<{ date: string; name: string }> {
+  // New Year's Day on a Saturday is observed on December 31 of the year before
+  return [year, year + 1]
+    .flatMap(y => holidayRules.map(rule => ({ date: holidayDate(rule, y), name: rule.name })))
+    .filter(h => h.date.startsWith(`${year}-`))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** The holiday or closure on a date, or null */
+export function closureOn(isoDate: string): string | null {
+  const closures = scheduleConfig.extraClosures.map(toIsoDate);
+  if (closures.includes(isoDate)) return 'Closure (SCHEDULE_EXTRA_CLOSURES)';
+  return holidaysInYear(Number(isoDate.slice(0, 4))).find(h => h.date === isoDate)?.name ?? null;
+}
+
+/** A weekday that isn't a holiday or closure */
+export function isBusinessDay(isoDate: string): boolean {
+  const weekday = new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && closureOn(isoDate) === null;
+}
+
+/** The business day `count` business days before a date */
+export function businessDaysBefore(isoDate: string, count: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  for (let found = 0; found < count;) {
+    date.setUTCDate(date.getUTCDate() - 1);
+    if (isBusinessDay(iso(date))) found++;
+  }
+  return iso(date);
+}
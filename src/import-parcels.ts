@@ -0,0 +1,69 @@
+/**
+ * PARCEL ROLL IMPORT SCRIPT
+ *
+ * Loads a county parcel roll into the local parcels table, which address
+ * lookups (POST /lookup-address) search before falling back to ArcGIS.
+ * The file is read in full before anything is replaced; each county's roll is
+ * then swapped in one short transaction, so a running server keeps working.
+ *
+ * Usage: npm run import-parcels -- <file> [--county orange]
+ *
+ *   <file>     FDOR NAL CSV, GeoJSON FeatureCollection (.geojson) or
+ *              line-delimited GeoJSON (.geojsonl)
+ *   --county   County for rows without a CO_NO column (defaults to DEFAULT_COUNTY)
+ */
+
+import fs from 'fs';
+import { initDatabase, closeDatabase, replaceParcels } from './database.js';
+import { getCountyAdapter } from './counties/index.js';
+import { readParcelRoll } from './parcelRoll.js';
+import { log } from './logger.js';
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  let county: string | undefined;
+  const files: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--county') {
+      county = args[++i];
+    } else if (args[i].startsWith('--county=')) {
+      county = args[i].slice('--county='.length);
+    } else {
+      files.push(args[i]);
+    }
+  }
+
+  if (files.length !== 1) {
+    throw new Error('Usage: npm run import-parcels -- <NAL csv | geojson | geojsonl> [--county orange]');
+  }
+  const [file] = files;
+  if (!fs.existsSync(file)) {
+    throw new Error(`File not found: ${file}`);
+  }
+
+  const adapter = getCountyAdapter(county);
+  log.info(`Importing parcel roll ${file} (rows without CO_NO count as ${adapter.name})`);
+
+  const skipped = { count: 0 };
+  initDatabase();
+  try {
+    const counts = await replaceParcels(readParcelRoll(file, adapter.countyNumber, skipped));
+
+    if (counts.size === 0) {
+      log.warn('No parcels found in the file — nothing was replaced');
+    }
+    for (const [countyNumber, count] of counts) {
+      log.success(`County ${countyNumber}: ${count} parcel(s) imported`);
+    }
+    if (skipped.count > 0) {
+      log.warn(`${skipped.count} row(s) skipped (no parcel id or county)`);
+    }
+  } finally {
+    closeDatabase();
+  }
+}
+
+main().catch(error => {
+  log.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -4,35 +4,80 @@
  * Core scrape function — runs a single scrape cycle:
  * 1. Opens the county website
  * 2. Solves CAPTCHA
- * 3. Searches for Lis Pendens filings (today or a specific date)
- * 4. Scrapes results
- * 5. Deduplicates against previous runs
- * 6. Returns only NEW filings as JSON (for n8n to process downstream)
+ * 3. Searches for Lis Pendens filings (today, a specific date, or a date range)
+ * 4. Scrapes results (one search window at a time for long backfills)
+ * 5. Deduplicates each window against previous runs (with RESCAN_BUSINESS_DAYS,
+ *    recent days are searched again and filings indexed late show up here)
+ * 6. Matches any releases recorded in the range back to stored filings
+ * 7. Returns only NEW filings (and the ones just released) as JSON
+ *    (for n8n to process downstream)
  *
  * Used by:
  *   - server.ts (HTTP server — triggered by n8n)
  *   - Can also be run directly: npm start
  */
 
-import { scrapeFilings } from './scraper.js';
-import { initDatabase, closeDatabase, insertNewFilings } from './database.js';
+import { scrapeFilings, describeScrapeRequest, type ScrapeOptions } from './scraper.js';
+import {
+  initDatabase,
+  closeDatabase,
+  storeNewFilings,
+  selectUnseenFilings,
+  saveDocumentExtraction,
+} from './database.js';
 import type { Filing } from './database.js';
+import { eachDay, normalizeDate, toIsoDate, describeRange } from './dates.js';
+import { extractDocument } from './documentExtraction.js';
+import { applyReleases, isReleaseDocument, type ReleasedFiling } from './caseTracking.js';
+import { resolveArchivePath } from './documentArchive.js';
 import {
   startRun,
   completeRun,
   getConsecutiveFailures,
 } from './convexLogger.js';
+import { parseList, scraper as scraperConfig } from './config.js';
 import { log } from './logger.js';
 
 // ---------------------------------------------------------------------------
 // Result type — this is what n8n receives
 // ---------------------------------------------------------------------------
+/** Per-recording-date breakdown — one entry for every day in the searched range */
+export interface DaySummary {
+  date: string;
+  total_on_site: number;
+  new_filings: number;
+  already_seen: number;
+  /** New filings on a re-scanned day (before the requested start date) —
+   *  indexed after an earlier run had already searched this date */
+  late_filings: number;
+}
+
 export interface ScrapeResult {
   success: boolean;
+  county: string;
   date_searched: string;
+  start_date: string;
+  end_date: string;
+  document_types: string[];
   total_on_site: number;
+  /** Sum of the lead searches' "N Total Results" headers (null if any header couldn't be read) */
+  total_reported: number | null;
+  /** Releases read from the separate release searches, and what their headers reported */
+  releases_on_site: number;
+  releases_reported: number | null;
+  pages_scraped: number;
+  /** MAX_PAGES stopped us before the last results page (lead or release search) */
+  truncated: boolean;
+  /** The scraped count disagrees with what the site says it has */
+  count_mismatch: boolean;
   new_filings: Filing[];
   already_seen: number;
+  /** New filings found only by re-scanning days before the requested start (see DaySummary) */
+  late_filings: number;
+  /** Stored filings closed by a release recorded in the searched range —
+   *  downstream systems should stop working these leads */
+  released_filings: ReleasedFiling[];
+  days: DaySummary[];
   consecutive_failures: number;
   duration_seconds: number;
   error: string | null;
@@ -42,7 +87,10 @@ export interface ScrapeResult {
 // ---------------------------------------------------------------------------
 // Main scrape function — exported for server.ts
 // ---------------------------------------------------------------------------
-export async function runScraper(date?: string): Promise<ScrapeResult> {
+/** Aborting `signal` (the job queue's timeout) during the scrape stops the run
+ *  with a failed result (error_step "timeout") and nothing stored. Once the new
+ *  filings are being stored the run ignores it and finishes, so they're reported. */
+export async function runScraper(options: ScrapeOptions = {}, signal?: AbortSignal): Promise<ScrapeResult> {
   const overallStart = Date.now();
 
   log.info('='.repeat(60));
@@ -51,7 +99,9 @@ export async function runScraper(date?: string): Promise<ScrapeResult> {
 
   // Initialize SQLite (filings dedup) and Convex run log
   initDatabase();
-  const runId = await startRun();
+  const request = describeScrapeRequest(options);
+  const runId = await startRun(request.county);
+  let storing = false;
 
   try {
     // -------------------------------------------------------------------
@@ -61,44 +111,130 @@ export async function runScraper(date?: string): Promise<ScrapeResult> {
     log.info('PHASE 1: Scraping county website');
     log.info('-'.repeat(40));
 
-    const { filings: allFilings, date_searched } = await scrapeFilings(date);
-    const totalScraped = allFilings.length;
-
-    if (allFilings.length === 0) {
-      log.info('No filings found for this date. This may be normal (weekends, holidays).');
-      const duration = (Date.now() - overallStart) / 1000;
-      const durationRounded = Math.round(duration * 10) / 10;
-      await completeRun(runId, 'success', date_searched, 0, 0, 0, durationRounded);
-
-      return {
-        success: true,
-        date_searched,
-        total_on_site: 0,
-        new_filings: [],
-        already_seen: 0,
-        consecutive_failures: 0,
-        duration_seconds: durationRounded,
-        error: null,
-        error_step: null,
-      };
-    }
+    // New filings are picked inside the scrape, one search window at a time,
+    // so a backfill that overlaps a previous run only enriches the genuinely
+    // new ones. Nothing is stored until the whole scrape has succeeded — a
+    // run that fails part-way leaves its filings new for the next run.
+    // Releases are searched separately in each window and never stored as leads.
+    const { county, chunks, document_types, date_searched, start_date, end_date, requested_start_date } = await scrapeFilings(
+      { ...options, releaseDocumentTypes: options.releaseDocumentTypes ?? scraperConfig.releaseDocumentTypes },
+      filings => selectUnseenFilings(filings.filter(f => !isReleaseDocument(f.document_type))),
+      signal,
+    );
 
-    log.info(`Found ${allFilings.length} total filing(s) on the county website`);
+    // The last point a timeout can stop the run: past here the new filings are
+    // stored, so the run must finish and report them or they'd never be delivered
+    signal?.throwIfAborted();
 
     // -------------------------------------------------------------------
-    // PHASE 2: Deduplicate — only keep filings we haven't seen before
+    // PHASE 2: Store the new filings and their enrichment, tally new vs. already seen
     // -------------------------------------------------------------------
     log.info('-'.repeat(40));
-    log.info('PHASE 2: Deduplication');
+    log.info('PHASE 2: Deduplication results');
     log.info('-'.repeat(40));
 
-    const newFilings = insertNewFilings(allFilings);
+    const days = new Map<string, DaySummary>();
+    for (const day of eachDay(start_date, end_date)) {
+      days.set(day, { date: day, total_on_site: 0, new_filings: 0, already_seen: 0, late_filings: 0 });
+    }
+
+    storing = true;
+    // Another run may have stored some of them meanwhile — storeNewFilings has the final say
+    const newFilings = storeNewFilings(chunks.flatMap(c => c.new_filings));
+    const newNumbers = new Set(newFilings.map(f => f.document_number));
+    const releases: Filing[] = [];
+    let totalScraped = 0;
+    const rescanEnd = toIsoDate(requested_start_date)!;
+
+    for (const chunk of chunks) {
+      const leads = chunk.filings.filter(f => !isReleaseDocument(f.document_type));
+      releases.push(...chunk.filings.filter(f => isReleaseDocument(f.document_type)));
+      releases.push(...(chunk.releases?.filings ?? []));
+      const chunkNew = chunk.new_filings.filter(f => newNumbers.has(f.document_number));
+      totalScraped += leads.length;
+
+      if (chunks.length > 1) {
+        log.info(
+          `Window ${describeRange(chunk.start_date, chunk.end_date)}: ` +
+          `${leads.length} on site, ${chunkNew.length} new`
+        );
+      }
+
+      for (const filing of leads) {
+        const key = normalizeDate(filing.recording_date);
+        const summary = days.get(key) ?? { date: key, total_on_site: 0, new_filings: 0, already_seen: 0, late_filings: 0 };
+        summary.total_on_site++;
+        if (newNumbers.has(filing.document_number)) {
+          summary.new_filings++;
+          if ((toIsoDate(key) ?? '') < rescanEnd) summary.late_filings++;
+        } else {
+          summary.already_seen++;
+        }
+        days.set(key, summary);
+      }
+    }
+
+    // Text extraction reads the archived PDFs — done after the filings are committed
+    for (const filing of newFilings) {
+      await extractArchivedDocument(filing);
+      if (filing.document_extraction) saveDocumentExtraction(filing, filing.document_extraction);
+    }
+
     const alreadySeen = totalScraped - newFilings.length;
+    const lateDays = [...days.values()].filter(d => d.late_filings > 0);
+    const lateFilings = lateDays.reduce((sum, d) => sum + d.late_filings, 0);
+
+    // Completeness checks — did we read everything the site says it has?
+    // The lead and release searches are each checked against their own count.
+    const searches = chunks.flatMap(c => (c.releases ? [c, c.releases] : [c]));
+    const truncated = searches.some(s => s.truncated);
+    const countMismatch = searches.some(s => s.total_reported !== null && s.total_reported !== s.filings.length);
+    const totalReported = chunks.every(c => c.total_reported !== null)
+      ? chunks.reduce((sum, c) => sum + (c.total_reported ?? 0), 0)
+      : null;
+    const releaseSearches = chunks.flatMap(c => (c.releases ? [c.releases] : []));
+    const releasesReported = releaseSearches.every(r => r.total_reported !== null)
+      ? releaseSearches.reduce((sum, r) => sum + (r.total_reported ?? 0), 0)
+      : null;
+    const pagesScraped = searches.reduce((sum, s) => sum + s.pages_scraped, 0);
 
-    if (newFilings.length === 0) {
+    if (truncated) {
+      log.warn('Results were truncated by MAX_PAGES — some filings were not scraped');
+    }
+    if (countMismatch) {
+      const totalRead = chunks.reduce((sum, c) => sum + c.filings.length, 0);
+      log.warn(`Scraped ${totalRead} filing(s) but the site reported ${totalReported ?? 'a different number'}`);
+    }
+
+    if (totalScraped === 0) {
+      log.info('No filings found for this date range. This may be normal (weekends, holidays).');
+    } else if (newFilings.length === 0) {
+      log.info(`Found ${totalScraped} total filing(s) on the county website`);
       log.info('All filings already in database — nothing new to process.');
     } else {
+      log.info(`Found ${totalScraped} total filing(s) on the county website`);
       log.success(`${newFilings.length} NEW filing(s) to process`);
+      const entityOnly = newFilings.filter(f => f.entity_only).length;
+      if (entityOnly > 0) {
+        log.info(`${entityOnly} of them owned only by businesses/trusts (entity_only)`);
+      }
+      for (const day of lateDays) {
+        log.info(`  ${day.late_filings} indexed late for recording date ${day.date}`);
+      }
+    }
+
+    // -------------------------------------------------------------------
+    // PHASE 3: Close the filings released in this range
+    // -------------------------------------------------------------------
+    const releasedFilings = applyReleases(county, releases);
+    if (releases.length > 0) {
+      log.info('-'.repeat(40));
+      log.info('PHASE 3: Releases');
+      log.info('-'.repeat(40));
+      log.info(`${releases.length} release(s) recorded, ${releasedFilings.length} matched to stored filings`);
+      for (const released of releasedFilings) {
+        log.info(`  ${released.document_number} (${released.grantee_name.split('\n')[0]}) released by ${released.release_document_number}`);
+      }
     }
 
     // -------------------------------------------------------------------
@@ -109,10 +245,16 @@ export async function runScraper(date?: string): Promise<ScrapeResult> {
 
     log.info('='.repeat(60));
     log.success('RUN COMPLETE');
+    log.info(`  County:             ${county}`);
     log.info(`  Date searched:      ${date_searched}`);
+    log.info(`  Document types:     ${document_types.join(', ')}`);
     log.info(`  Total on site:      ${totalScraped}`);
+    log.info(`  Pages scraped:      ${pagesScraped}`);
     log.info(`  New filings:        ${newFilings.length}`);
     log.info(`  Already seen:       ${alreadySeen}`);
+    log.info(`  Indexed late:       ${lateFilings}`);
+    log.info(`  Releases on site:   ${releases.length}`);
+    log.info(`  Released:           ${releasedFilings.length}`);
     log.info(`  Duration:           ${duration.toFixed(1)} seconds`);
     log.info('='.repeat(60));
 
@@ -123,29 +265,46 @@ export async function runScraper(date?: string): Promise<ScrapeResult> {
 
     return {
       success: true,
+      county,
       date_searched,
+      start_date,
+      end_date,
+      document_types,
       total_on_site: totalScraped,
+      total_reported: totalReported,
+      releases_on_site: releases.length,
+      releases_reported: releasesReported,
+      pages_scraped: pagesScraped,
+      truncated,
+      count_mismatch: countMismatch,
       new_filings: newFilings,
       already_seen: alreadySeen,
+      late_filings: lateFilings,
+      released_filings: releasedFilings,
+      days: [...days.values()],
       consecutive_failures: 0,
       duration_seconds: durationRounded,
       error: null,
       error_step: null,
     };
 
-  } catch (error) {
+  } catch (caught) {
+    // Aborted before storing: whatever the run tripped over is a symptom of the abort
+    const error = signal?.aborted && !storing ? signal.reason : caught;
     const message = error instanceof Error ? error.message : String(error);
     log.error(`RUN FAILED: ${message}`);
 
     const duration = (Date.now() - overallStart) / 1000;
     const durationRounded = Math.round(duration * 10) / 10;
-    const dateSearched = date || new Date().toLocaleDateString('en-US');
+    const dateSearched = describeRange(request.start_date, request.end_date);
 
     // Determine which step failed based on the error message.
     // Order matters: check more specific patterns first to avoid false matches
     // (e.g. "launch" errors contain "search-engine-choice-screen" in the CLI flags).
     let errorStep = 'unknown';
-    if (message.includes('EAGAIN') || message.includes('spawn') || message.includes('launch') || message.includes('chromium')) {
+    if (signal?.aborted && !storing) {
+      errorStep = 'timeout';
+    } else if (message.includes('EAGAIN') || message.includes('spawn') || message.includes('launch') || message.includes('chromium')) {
       errorStep = 'browser_launch';
     } else if (message.includes('CAPTCHA') || message.includes('captcha') || message.includes('2captcha')) {
       errorStep = 'captcha_solving';
@@ -169,10 +328,23 @@ export async function runScraper(date?: string): Promise<ScrapeResult> {
 
     return {
       success: false,
+      county: request.county,
       date_searched: dateSearched,
+      start_date: request.start_date,
+      end_date: request.end_date,
+      document_types: request.document_types,
       total_on_site: 0,
+      total_reported: null,
+      releases_on_site: 0,
+      releases_reported: null,
+      pages_scraped: 0,
+      truncated: false,
+      count_mismatch: false,
       new_filings: [],
       already_seen: 0,
+      late_filings: 0,
+      released_filings: [],
+      days: [],
       consecutive_failures: consecutiveFailures,
       duration_seconds: durationRounded,
       error: message,
@@ -183,19 +355,60 @@ export async function runScraper(date?: string): Promise<ScrapeResult> {
   }
 }
 
+/** Parse the text of a newly archived PDF onto the filing. A PDF that can't
+ *  be read is logged and skipped — it never fails the run. */
+async function extractArchivedDocument(filing: Filing): Promise<void> {
+  if (!filing.document_path || filing.document_content_type !== 'application/pdf') return;
+  try {
+    filing.document_extraction = await extractDocument(resolveArchivePath(filing.document_path));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn(`Could not extract text from ${filing.document_number}: ${message}`);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // CLI entry point — allows running directly with: npm start
 // ---------------------------------------------------------------------------
 const isDirectRun = process.argv[1]?.includes('index');
 
 if (isDirectRun) {
-  const dateArg = process.argv[2]; // Optional: npm start -- "2/5/2026"
-  runScraper(dateArg).then(result => {
+  // Optional: npm start -- "2/5/2026"             (one day)
+  //           npm start -- "2/1/2026" "2/7/2026"  (backfill a range)
+  //           npm start -- --types lis_pendens,final_judgment "2/5/2026"
+  //           npm start -- --county orange "2/5/2026"
+  //           npm start -- --enrich "2/5/2026"    (also read detail pages)
+  //           npm start -- --archive "2/5/2026"   (also download the documents)
+  //           npm start -- --rescan 2             (also re-search the 2 business days before)
+  const booleanFlags = new Set(['enrich', 'archive']);
+  const dateArgs: string[] = [];
+  const flags: Record<string, string> = {};
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i].match(/^--(\w+)(?:=(.*))?$/);
+    if (!flag) dateArgs.push(args[i]);
+    else if (booleanFlags.has(flag[1])) flags[flag[1]] = flag[2] ?? 'true';
+    else flags[flag[1]] = flag[2] ?? args[++i];
+  }
+  const typesArg = flags.types;
+
+  runScraper({
+    county: flags.county,
+    startDate: dateArgs[0],
+    endDate: dateArgs[1],
+    documentTypes: typesArg ? parseList(typesArg) : undefined,
+    enrichDetails: flags.enrich !== undefined ? flags.enrich === 'true' : undefined,
+    archiveDocuments: flags.archive !== undefined ? flags.archive === 'true' : undefined,
+    rescanDays: flags.rescan !== undefined ? Number(flags.rescan) : undefined,
+  }).then(result => {
     if (result.success) {
       log.info(`Done. ${result.new_filings.length} new filing(s) found.`);
     } else {
       log.error(`Failed: ${result.error}`);
       process.exit(1);
     }
+  }).catch(error => {
+    log.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
   });
 }
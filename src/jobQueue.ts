@@ -0,0 +1,262 @@
+/**
+ * SCRAPE JOB QUEUE
+ *
+ * Every POST /scrape becomes a job in the scrape_jobs table. One worker runs
+ * queued jobs oldest first, one at a time (there's only one browser), and
+ * stores each result on its job — so a second trigger waits its turn instead
+ * of being turned away, and results survive a restart.
+ *
+ * A job still marked "running" when the server starts was interrupted by the
+ * restart. It's queued again until it has been started JOB_MAX_ATTEMPTS
+ * times, then failed with error_step "stale_job_recovery".
+ *
+ * A job with a callback_url has its result POSTed there when it finishes
+ * (see webhooks.ts).
+ *
+ * Scheduled case-tracking runs (caseTracking.ts) are jobs in the same queue,
+ * so they wait for the browser like any scrape.
+ */
+
+import crypto from 'crypto';
+import { runScraper, type ScrapeResult } from './index.js';
+import { trackCases, trackingRange, type CaseTrackingOptions, type CaseTrackingResult } from './caseTracking.js';
+import { closeBrowser, planSearchWindows, describeScrapeRequest, type ScrapeOptions } from './scraper.js';
+import { getCountyAdapter } from './counties/index.js';
+import {
+  initDatabase, closeDatabase, createJob, createCaseTrackingJob, getJob, getJobs, claimNextJob, finishJob,
+  requeueJob, getPendingCallbacks, type Job, type ScrapeJob, type CaseTrackingJob,
+} from './database.js';
+import { server as serverConfig, callbacks as callbackConfig } from './config.js';
+import { deliverCallback } from './webhooks.js';
+import { describeRange } from './dates.js';
+import { log } from './logger.js';
+
+/** The job the worker is running right now */
+let currentJobId: string | null = null;
+let draining = false;
+
+/** Whether a job (scrape or case tracking) is running in this process */
+export function isScraping(): boolean {
+  return currentJobId !== null;
+}
+
+/** A failed ScrapeResult for a run that never produced one of its own */
+function failedResult(options: ScrapeOptions, error: string, errorStep: string, durationSeconds: number): ScrapeResult {
+  const request = describeScrapeRequest(options);
+  return {
+    success: false,
+    county: request.county,
+    date_searched: describeRange(request.start_date, request.end_date),
+    start_date: request.start_date,
+    end_date: request.end_date,
+    document_types: request.document_types,
+    total_on_site: 0,
+    total_reported: null,
+    releases_on_site: 0,
+    releases_reported: null,
+    pages_scraped: 0,
+    truncated: false,
+    count_mismatch: false,
+    new_filings: [],
+    already_seen: 0,
+    late_filings: 0,
+    released_filings: [],
+    days: [],
+    consecutive_failures: -1,
+    duration_seconds: durationSeconds,
+    error,
+    error_step: errorStep,
+  };
+}
+
+/** A failed CaseTrackingResult for a run that never produced one of its own */
+function failedTrackingResult(options: CaseTrackingOptions, error: string, durationSeconds: number): CaseTrackingResult {
+  const { startDate, endDate } = trackingRange(options);
+  return {
+    success: false,
+    county: describeScrapeRequest({ county: options.county }).county,
+    date_searched: describeRange(startDate, endDate),
+    tracked_filings: 0,
+    follow_ups_found: 0,
+    events_recorded: 0,
+    status_changes: [],
+    duration_seconds: durationSeconds,
+    error,
+  };
+}
+
+/** A failed result of the job's kind */
+function failedJobResult(job: Job, error: string, errorStep: string, durationSeconds: number): ScrapeResult | CaseTrackingResult {
+  return job.kind === 'track_cases'
+    ? failedTrackingResult(job.options, error, durationSeconds)
+    : failedResult(job.options, error, errorStep, durationSeconds);
+}
+
+function describeJob(job: Job): string {
+  return `${job.kind === 'track_cases' ? 'Case tracking' : 'Scrape'} job ${job.job_id}`;
+}
+
+// ---------------------------------------------------------------------------
+// Queueing
+// ---------------------------------------------------------------------------
+
+/** Queue a scrape and wake the worker. Throws on an invalid request (unknown
+ *  county, bad dates) so the caller can answer 400 without queueing anything.
+ *  Backfills get the normal timeout once per search window. */
+export function enqueueScrape(options: ScrapeOptions, callbackUrl: string | null = null): ScrapeJob {
+  getCountyAdapter(options.county); // Throws on an unknown county
+  const plan = planSearchWindows(options);
+  const timeoutMs = serverConfig.scrapeTimeoutMs * Math.max(1, plan.windows.length);
+
+  initDatabase();
+  let job: ScrapeJob;
+  try {
+    job = createJob(crypto.randomUUID(), options, timeoutMs, callbackUrl);
+  } finally {
+    closeDatabase();
+  }
+  log.info(`Queued scrape job ${job.job_id} for ${describeRange(plan.start_date, plan.end_date)} (${plan.windows.length} search window(s))`);
+  if (job.callback_url && !callbackConfig.secret) {
+    log.warn(`Job ${job.job_id}'s result will be POSTed to ${job.callback_url} unsigned — set CALLBACK_SECRET so the receiver can verify it`);
+  }
+
+  processQueue();
+
+  // The worker may have picked it up already
+  initDatabase();
+  try {
+    return (getJob(job.job_id) as ScrapeJob | null) ?? job;
+  } finally {
+    closeDatabase();
+  }
+}
+
+/** Queue a case-tracking run (see caseTracking.ts) and wake the worker.
+ *  Throws on an unknown county or bad dates. */
+export function enqueueCaseTracking(options: CaseTrackingOptions = {}): CaseTrackingJob {
+  getCountyAdapter(options.county); // Throws on an unknown county
+  const plan = planSearchWindows({ ...trackingRange(options), rescanDays: 0 });
+  const timeoutMs = serverConfig.scrapeTimeoutMs * Math.max(1, plan.windows.length);
+
+  initDatabase();
+  let job: CaseTrackingJob;
+  try {
+    job = createCaseTrackingJob(crypto.randomUUID(), options, timeoutMs);
+  } finally {
+    closeDatabase();
+  }
+  log.info(`Queued case tracking job ${job.job_id} for ${describeRange(plan.start_date, plan.end_date)}`);
+
+  processQueue();
+  return job;
+}
+
+/** Requeue (or fail) jobs left "running" by a process that's gone, resume
+ *  undelivered callbacks, then start the worker on anything queued. Call once
+ *  when the server starts. */
+export function startJobQueue(): void {
+  initDatabase();
+  let pendingCallbacks: Job[];
+  try {
+    for (const job of getJobs({ status: 'running', limit: 1000 })) {
+      if (job.job_id === currentJobId) continue;
+
+      if (job.attempts < serverConfig.jobMaxAttempts) {
+        log.warn(`${describeJob(job)} was interrupted (attempt ${job.attempts}) — queueing it again`);
+        requeueJob(job.job_id);
+      } else {
+        log.error(`${describeJob(job)} was interrupted ${job.attempts} time(s) — giving up`);
+        finishJob(job.job_id, failedJobResult(
+          job,
+          `Job was interrupted by a restart ${job.attempts} time(s)`,
+          'stale_job_recovery',
+          0,
+        ));
+      }
+    }
+    pendingCallbacks = getPendingCallbacks();
+  } finally {
+    closeDatabase();
+  }
+
+  for (const job of pendingCallbacks) void deliverCallback(job.job_id);
+  processQueue();
+}
+
+// ---------------------------------------------------------------------------
+// Worker
+// ---------------------------------------------------------------------------
+
+/** Start working through the queue unless the worker already is */
+function processQueue(): void {
+  if (draining) return;
+  draining = true;
+  drain()
+    .catch(error => log.error(`Job queue stopped: ${error instanceof Error ? error.message : String(error)}`))
+    .finally(() => { draining = false; });
+}
+
+async function drain(): Promise<void> {
+  for (;;) {
+    initDatabase();
+    let job: Job | null;
+    try {
+      job = claimNextJob();
+    } finally {
+      closeDatabase();
+    }
+    if (!job) return;
+
+    currentJobId = job.job_id;
+    try {
+      const result = await runJob(job);
+      initDatabase();
+      try {
+        finishJob(job.job_id, result);
+      } finally {
+        closeDatabase();
+      }
+      log.info(`${describeJob(job)} ${result.success ? 'succeeded' : 'failed'}`);
+
+      // Delivered in the background — retries mustn't hold up the next job
+      if (job.callback_url) void deliverCallback(job.job_id);
+    } finally {
+      currentJobId = null;
+    }
+  }
+}
+
+/** Run one job under its timeout. Never throws — a crash or timeout becomes
+ *  a failed result. On timeout the run is aborted and awaited rather than
+ *  raced, so the next job can't start while it still holds the browser or is
+ *  storing filings. */
+async function runJob(job: Job): Promise<ScrapeResult | CaseTrackingResult> {
+  log.info(`Running ${describeJob(job).toLowerCase()} (attempt ${job.attempts})`);
+  const startedAt = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new Error(`${job.kind === 'track_cases' ? 'Case tracking' : 'Scrape'} timed out after ${job.timeout_ms / 1000}s`)),
+    job.timeout_ms,
+  );
+
+  try {
+    return job.kind === 'track_cases'
+      ? await trackCases(job.options, controller.signal)
+      : await runScraper(job.options, controller.signal);
+  } catch (error) {
+    // Unexpected crash — clean up browser
+    try {
+      await closeBrowser();
+    } catch {
+      // Browser may already be closed — ignore
+    }
+
+    // Once aborted, whatever the run tripped over is a symptom of the abort
+    const reason = controller.signal.aborted ? controller.signal.reason : error;
+    const message = reason instanceof Error ? reason.message : String(reason);
+    log.error(`${describeJob(job)} failed: ${message}`);
+    return failedJobResult(job, message, 'unexpected_server_error', Math.round((Date.now() - startedAt) / 1000));
+  } finally {
+    clearTimeout(timer);
+  }
+}
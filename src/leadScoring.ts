@@ -0,0 +1,96 @@
+/**
+ * LEAD SCORING
+ *
+ * Ranks each filing 0..100 so the sales team works the hottest leads first.
+ * The score adds up points for the kind of foreclosure, the grantees, and —
+ * once the address lookup has run — how well the parcel matched and what it
+ * is worth. Every factor that contributed is kept in a breakdown so a score
+ * can be explained. The weights live in leadScoringRules.ts.
+ */
+
+import { scoringWeights, type ScoringWeights } from './leadScoringRules.js';
+import { contactTargets, parseFilingParties } from './parties.js';
+import type { Filing } from './database.js';
+import type { ParcelLookupResult } from './parcelLookup.js';
+
+export interface ScoreFactor {
+  factor: string;
+  /** The input the points were awarded for */
+  value: string | number | boolean | null;
+  points: number;
+}
+
+export interface LeadScore {
+  lead_score: number;
+  lead_score_breakdown: ScoreFactor[];
+}
+
+export type ScoringFiling = Pick<Filing, 'grantor_name' | 'grantee_name' | 'foreclosure_kind' | 'parties' | 'entity_only'>;
+
+export type ScoringLookup = Pick<ParcelLookupResult,
+  'lookup_status' | 'match_method' | 'owner_matches_grantee' | 'homestead' | 'just_value' | 'assessed_value' | 'match_score' | 'total_keywords'>;
+
+const LEGAL_METHODS = new Set(['legal_description', 'like_legal_description']);
+
+/** Score a filing, with its address lookup result when it has one */
+export function scoreLead(
+  filing: ScoringFiling,
+  lookup: ScoringLookup | null = null,
+  weights: ScoringWeights = scoringWeights,
+): LeadScore {
+  const breakdown: ScoreFactor[] = [];
+  const add = (factor: string, value: ScoreFactor['value'], points: number) => {
+    if (points !== 0) breakdown.push({ factor, value, points });
+  };
+
+  const kind = filing.foreclosure_kind ?? 'other';
+  add('foreclosure_kind', kind, weights.foreclosureKind[kind]);
+
+  const parties = filing.parties ?? parseFilingParties(filing);
+  const people = contactTargets(parties).length;
+  const byCount = weights.personGrantees;
+  add('person_grantees', people, byCount[Math.min(people, byCount.length - 1)] ?? 0);
+  if (filing.entity_only) add('entity_only', true, weights.entityOnly);
+
+  if (lookup && lookup.lookup_status !== 'error') {
+    if (lookup.lookup_status !== 'matched') {
+      add('address', lookup.lookup_status, weights.noAddress);
+    } else {
+      const method = lookup.match_method;
+      if (method) add('match_method', method, weights.matchMethod[method] ?? 0);
+
+      if (method && LEGAL_METHODS.has(method) && lookup.match_score !== null && lookup.total_keywords) {
+        const ratio = Math.min(1, lookup.match_score / lookup.total_keywords);
+        add('legal_match', Math.round(ratio * 100) / 100, Math.round(ratio * weights.legalMatch));
+      }
+
+      if (lookup.owner_matches_grantee !== null) {
+        add('owner_match', lookup.owner_matches_grantee,
+          lookup.owner_matches_grantee ? weights.ownerMatch.matched : weights.ownerMatch.mismatched);
+      }
+
+      if (lookup.homestead !== null) {
+        add('homestead', lookup.homestead,
+          lookup.homestead ? weights.homestead.homesteaded : weights.homestead.notHomesteaded);
+      }
+
+      // Assessed value stands in when the roll has no just value
+      const value = lookup.just_value ?? lookup.assessed_value;
+      if (value !== null) {
+        const bracket = [...weights.justValue].sort((x, y) => y.min - x.min).find(x => value >= x.min);
+        add(lookup.just_value !== null ? 'just_value' : 'assessed_value', value, bracket?.points ?? 0);
+      }
+    }
+  }
+
+  const total = breakdown.reduce((sum, f) => sum + f.points, 0);
+  return {
+    lead_score: Math.max(0, Math.min(100, total)),
+    lead_score_breakdown: breakdown,
+  };
+}
+
+/** Stamp a score (without parcel data) onto a scraped filing */
+export function withLeadScore(filing: Filing): Filing {
+  return { ...filing, ...scoreLead(filing) };
+}
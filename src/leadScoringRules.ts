@@ -0,0 +1,88 @@
+import type { ForeclosureKind } from './classification.js';
+import type { MatchMethod } from './parcelLookup.js';
+
+// ---------------------------------------------------------------------------
+// Lead scoring weights
+// ---------------------------------------------------------------------------
+// Maintained by hand. After changing a weight, run `npm run score-leads` to
+// re-score stored filings.
+//
+// Each factor adds (or subtracts) points; the total is clamped to 0..100.
+// Parcel factors only apply once the filing has been through
+// POST /lookup-address — until then a filing is scored on its kind and
+// grantees alone.
+// ---------------------------------------------------------------------------
+
+export interface ValueBracket {
+  /** Lower bound of the parcel's just value, inclusive */
+  min: number;
+  points: number;
+}
+
+export interface ScoringWeights {
+  /** Bank foreclosures move fastest and have the most equity at stake */
+  foreclosureKind: Record<ForeclosureKind, number>;
+
+  /** Parcel owner shares a name with the grantee (true) or doesn't (false) */
+  ownerMatch: { matched: number; mismatched: number };
+
+  /** Homestead exemption on the parcel — the owner lives there */
+  homestead: { homesteaded: number; notHomesteaded: number };
+
+  /** Points by the parcel's just (market) value — or assessed value when
+   *  there is no just value; the highest bracket whose min the value reaches wins */
+  justValue: ValueBracket[];
+
+  /** How confidently the parcel was tied to the filing */
+  matchMethod: Partial<Record<MatchMethod, number>>;
+
+  /** Scaled by the legal-description match ratio (match_score / total_keywords)
+   *  for matches that went through the legal-description scorer */
+  legalMatch: number;
+
+  /** Lookup ran but found no property address */
+  noAddress: number;
+
+  /** Points by the number of person grantees; the last entry covers larger counts */
+  personGrantees: number[];
+
+  /** Every grantee is a business, trust or estate */
+  entityOnly: number;
+}
+
+export const scoringWeights: ScoringWeights = {
+  foreclosureKind: {
+    mortgage:         25,
+    tax:              20,
+    hoa:              15,
+    condo:            12,
+    code_enforcement:  8,
+    other:             5,
+  },
+
+  ownerMatch: { matched: 15, mismatched: -10 },
+
+  homestead: { homesteaded: 10, notHomesteaded: 0 },
+
+  justValue: [
+    { min: 0,       points: 3 },
+    { min: 100_000, points: 10 },
+    { min: 200_000, points: 15 },
+    { min: 750_000, points: 8 },
+  ],
+
+  matchMethod: {
+    exact_name:             15,
+    legal_description:      12,
+    like_single:            10,
+    like_legal_description:  8,
+  },
+
+  legalMatch: 5,
+
+  noAddress: -15,
+
+  personGrantees: [0, 10, 8, 5],
+
+  entityOnly: -20,
+};
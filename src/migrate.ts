@@ -0,0 +1,50 @@
+/**
+ * MIGRATION SCRIPT
+ *
+ * Shows which schema migrations have been applied, or applies the pending
+ * ones. Every script and the server already apply pending migrations when
+ * they open the database — this is for checking a deployed database or
+ * upgrading it ahead of a restart.
+ *
+ * Usage: npm run migrate            (apply pending migrations)
+ *        npm run migrate -- status  (list applied and pending migrations)
+ */
+
+import { initDatabase, closeDatabase, getDatabase } from './database.js';
+import { applyMigrations, getMigrationStatus } from './migrations.js';
+import { log } from './logger.js';
+
+function main(): void {
+  const command = process.argv[2] ?? 'up';
+  if (command !== 'up' && command !== 'status') {
+    throw new Error(`Unknown command "${command}" — expected "up" or "status"`);
+  }
+
+  initDatabase({ migrate: false });
+  try {
+    const db = getDatabase();
+
+    if (command === 'status') {
+      const status = getMigrationStatus(db);
+      for (const m of status) {
+        const state = m.applied_at ? `applied ${m.applied_at}` : 'pending';
+        log.info(`  ${String(m.version).padStart(3)}  ${m.name.padEnd(28)} ${state}`);
+      }
+      const pending = status.filter(m => m.applied_at === null).length;
+      log.info(`${status.length - pending} applied, ${pending} pending`);
+      return;
+    }
+
+    const applied = applyMigrations(db);
+    log.success(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Schema is up to date');
+  } finally {
+    closeDatabase();
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  log.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
@@ -0,0 +1,450 @@
+/**
+ * SCHEMA MIGRATIONS
+ *
+ * Every change to the SQLite schema is a numbered migration in the list
+ * below. initDatabase() applies any that haven't run yet, in order, each in
+ * its own transaction, and records it in the schema_migrations table — so a
+ * new column never means deleting the database (and its dedup history).
+ *
+ * To change the schema, append a migration with the next version number.
+ * Never edit or reorder one that has shipped: databases that already ran it
+ * won't run it again.
+ *
+ * Databases created before this table existed already have some of these
+ * tables and columns, so migrations 1-10 only create what's missing.
+ *
+ * Status and manual apply: npm run migrate -- status | up
+ */
+
+import type Database from 'better-sqlite3';
+import { log } from './logger.js';
+import { toIsoDate } from './dates.js';
+
+export interface Migration {
+  version: number;
+  /** snake_case summary, shown by `npm run migrate -- status` */
+  name: string;
+  up(db: Database.Database): void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  /** null while pending */
+  applied_at: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return columns.some(c => c.name === column);
+}
+
+/** ALTER TABLE ADD COLUMN for any listed column the table doesn't have yet */
+function addMissingColumns(db: Database.Database, table: string, columns: Record<string, string>): void {
+  for (const [name, definition] of Object.entries(columns)) {
+    if (hasColumn(db, table, name)) continue;
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+    log.info(`Added column ${table}.${name}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Migrations — append only
+// ---------------------------------------------------------------------------
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_filings',
+    up(db) {
+      // Document numbers are only unique within a county, so the dedup key is
+      // (county, document_number).
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS filings (
+          county            TEXT NOT NULL DEFAULT 'orange',
+          document_number   TEXT NOT NULL,
+          document_type     TEXT NOT NULL,
+          recording_date    TEXT NOT NULL,
+          grantor_name      TEXT DEFAULT '',
+          grantee_name      TEXT NOT NULL,
+          legal_description TEXT DEFAULT '',
+          created_at        TEXT DEFAULT (datetime('now')),
+          PRIMARY KEY (county, document_number)
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'filings_county_key',
+    up(db) {
+      // Databases created before multi-county support keyed filings by
+      // document_number alone. Rebuild the table with the county column and the
+      // composite key — every existing row came from Orange County.
+      if (hasColumn(db, 'filings', 'county')) return;
+
+      log.info('Upgrading filings table: adding county column');
+      db.exec(`
+        CREATE TABLE filings_new (
+          county            TEXT NOT NULL DEFAULT 'orange',
+          document_number   TEXT NOT NULL,
+          document_type     TEXT NOT NULL,
+          recording_date    TEXT NOT NULL,
+          grantor_name      TEXT DEFAULT '',
+          grantee_name      TEXT NOT NULL,
+          legal_description TEXT DEFAULT '',
+          created_at        TEXT DEFAULT (datetime('now')),
+          PRIMARY KEY (county, document_number)
+        );
+        INSERT INTO filings_new
+          (county, document_number, document_type, recording_date, grantor_name, grantee_name, legal_description, created_at)
+        SELECT
+          'orange', document_number, document_type, recording_date, grantor_name, grantee_name, legal_description, created_at
+        FROM filings;
+        DROP TABLE filings;
+        ALTER TABLE filings_new RENAME TO filings;
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'filing_details',
+    up(db) {
+      addMissingColumns(db, 'filings', {
+        detail_url:         'TEXT',
+        case_number:        'TEXT',
+        book:               'TEXT',
+        page:               'TEXT',
+        parcel_ids:         'TEXT',  // JSON array
+        plaintiff_attorney: 'TEXT',
+        details_fetched_at: 'TEXT',
+      });
+    },
+  },
+  {
+    version: 4,
+    name: 'document_archive',
+    up(db) {
+      addMissingColumns(db, 'filings', {
+        document_path:         'TEXT',  // Relative to paths.data
+        document_sha256:       'TEXT',
+        document_content_type: 'TEXT',
+        document_archived_at:  'TEXT',
+        document_extraction:   'TEXT',  // JSON DocumentExtraction
+      });
+    },
+  },
+  {
+    version: 5,
+    name: 'parcels',
+    up(db) {
+      // Local copy of county parcel rolls (npm run import-parcels), so address
+      // lookups don't depend on the live ArcGIS service. parcels_fts indexes owner
+      // name and legal description; it's rebuilt after every import.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS parcels (
+          id          INTEGER PRIMARY KEY,
+          co_no       INTEGER NOT NULL,
+          parcel_id   TEXT NOT NULL,
+          own_name    TEXT DEFAULT '',
+          phy_addr1   TEXT DEFAULT '',
+          phy_city    TEXT DEFAULT '',
+          phy_zipcd   TEXT DEFAULT '',
+          s_legal     TEXT DEFAULT '',
+          imported_at TEXT DEFAULT (datetime('now')),
+          UNIQUE (co_no, parcel_id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_parcels_owner ON parcels (co_no, own_name);
+        CREATE VIRTUAL TABLE IF NOT EXISTS parcels_fts USING fts5(
+          own_name, s_legal, content='parcels', content_rowid='id'
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'parties_and_classification',
+    up(db) {
+      addMissingColumns(db, 'filings', {
+        parties:              'TEXT',     // JSON Party[]
+        entity_only:          'INTEGER',  // 0/1
+        foreclosure_kind:     'TEXT',
+        normalized_plaintiff: 'TEXT',
+      });
+    },
+  },
+  {
+    version: 7,
+    name: 'parcel_values',
+    up(db) {
+      addMissingColumns(db, 'parcels', {
+        jv:       'REAL',
+        av_nsd:   'REAL',
+        jv_hmstd: 'REAL',
+      });
+    },
+  },
+  {
+    version: 8,
+    name: 'lead_score',
+    up(db) {
+      addMissingColumns(db, 'filings', {
+        address_lookup:       'TEXT',  // JSON ParcelLookupResult from POST /lookup-address
+        lead_score:           'INTEGER',
+        lead_score_breakdown: 'TEXT',  // JSON ScoreFactor[]
+        scored_at:            'TEXT',
+      });
+    },
+  },
+  {
+    version: 9,
+    name: 'case_tracking',
+    up(db) {
+      addMissingColumns(db, 'filings', {
+        case_status:    'TEXT',
+        case_status_at: 'TEXT',
+      });
+
+      // Follow-up documents (judgment, certificate of sale/title, release) found
+      // for a stored filing by case tracking. One row per filing and document.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS case_events (
+          county                TEXT NOT NULL,
+          document_number       TEXT NOT NULL,
+          event_document_number TEXT NOT NULL,
+          event_document_type   TEXT NOT NULL,
+          event_recording_date  TEXT NOT NULL,
+          status                TEXT NOT NULL,
+          matched_by            TEXT NOT NULL,
+          created_at            TEXT DEFAULT (datetime('now')),
+          PRIMARY KEY (county, document_number, event_document_number)
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'lead_record',
+    up(db) {
+      // Parties, properties, contacts and status history — the lead record
+      // beyond the filings row
+      addMissingColumns(db, 'filings', {
+        lead_status: "TEXT NOT NULL DEFAULT 'new'",
+        property_id: 'INTEGER',  // properties.id, set by a matched address lookup
+      });
+
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS parties (
+          id              INTEGER PRIMARY KEY,
+          county          TEXT NOT NULL,
+          document_number TEXT NOT NULL,
+          role            TEXT NOT NULL,  -- grantor | grantee
+          kind            TEXT NOT NULL,  -- person | entity
+          name            TEXT NOT NULL,
+          first_name      TEXT,
+          last_name       TEXT,
+          UNIQUE (county, document_number, role, name)
+        );
+
+        CREATE TABLE IF NOT EXISTS properties (
+          id                INTEGER PRIMARY KEY,
+          county            TEXT NOT NULL,
+          parcel_number     TEXT NOT NULL,
+          address           TEXT DEFAULT '',
+          city              TEXT DEFAULT '',
+          state             TEXT DEFAULT 'FL',
+          zip               TEXT DEFAULT '',
+          owner_name        TEXT DEFAULT '',
+          legal_description TEXT DEFAULT '',
+          just_value        REAL,
+          assessed_value    REAL,
+          homestead         INTEGER,  -- 0/1
+          source            TEXT,     -- local | arcgis
+          updated_at        TEXT DEFAULT (datetime('now')),
+          UNIQUE (county, parcel_number)
+        );
+
+        CREATE TABLE IF NOT EXISTS contacts (
+          id                INTEGER PRIMARY KEY,
+          party_id          INTEGER NOT NULL UNIQUE REFERENCES parties (id) ON DELETE CASCADE,
+          phones            TEXT NOT NULL DEFAULT '[]',  -- JSON string[]
+          emails            TEXT NOT NULL DEFAULT '[]',  -- JSON string[]
+          mailing_address   TEXT,
+          skip_trace_status TEXT NOT NULL DEFAULT 'pending',
+          traced_at         TEXT,
+          updated_at        TEXT DEFAULT (datetime('now'))
+        );
+
+        CREATE TABLE IF NOT EXISTS lead_status_history (
+          id              INTEGER PRIMARY KEY,
+          county          TEXT NOT NULL,
+          document_number TEXT NOT NULL,
+          status          TEXT NOT NULL,
+          note            TEXT,
+          created_at      TEXT DEFAULT (datetime('now'))
+        );
+        CREATE INDEX IF NOT EXISTS idx_lead_status_history_filing ON lead_status_history (county, document_number);
+      `);
+
+      // Parties of filings stored before the parties table existed
+      db.exec(`
+        INSERT OR IGNORE INTO parties (county, document_number, role, kind, name, first_name, last_name)
+        SELECT f.county, f.document_number,
+               json_extract(p.value, '$.role'), json_extract(p.value, '$.kind'), json_extract(p.value, '$.name'),
+               json_extract(p.value, '$.first_name'), json_extract(p.value, '$.last_name')
+        FROM filings f, json_each(f.parties) p
+        WHERE f.parties IS NOT NULL
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'filings_recorded_on',
+    up(db) {
+      // recording_date is stored as the site prints it (MM/DD/YYYY), which
+      // doesn't sort. recorded_on is the same date as YYYY-MM-DD for range
+      // filters and paging in GET /filings.
+      addMissingColumns(db, 'filings', { recorded_on: 'TEXT' });
+
+      const rows = db.prepare('SELECT county, document_number, recording_date FROM filings').all() as
+        Array<{ county: string; document_number: string; recording_date: string }>;
+      const update = db.prepare('UPDATE filings SET recorded_on = ? WHERE county = ? AND document_number = ?');
+      for (const row of rows) {
+        update.run(toIsoDate(row.recording_date), row.county, row.document_number);
+      }
+
+      db.exec('CREATE INDEX IF NOT EXISTS idx_filings_recorded_on ON filings (recorded_on, county, document_number)');
+    },
+  },
+  {
+    version: 12,
+    name: 'scrape_jobs',
+    up(db) {
+      // POST /scrape requests, run one at a time by jobQueue.ts
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS scrape_jobs (
+          id          TEXT PRIMARY KEY,
+          status      TEXT NOT NULL,   -- queued | running | succeeded | failed
+          options     TEXT NOT NULL,   -- JSON ScrapeOptions
+          timeout_ms  INTEGER NOT NULL,
+          attempts    INTEGER NOT NULL DEFAULT 0,
+          result      TEXT,            -- JSON ScrapeResult
+          error       TEXT,
+          created_at  TEXT DEFAULT (datetime('now')),
+          started_at  TEXT,
+          finished_at TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_scrape_jobs_status ON scrape_jobs (status, created_at);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'job_callbacks',
+    up(db) {
+      addMissingColumns(db, 'scrape_jobs', {
+        callback_url:      'TEXT',
+        callback_status:   'TEXT',  // pending | delivered | failed
+        callback_attempts: 'INTEGER NOT NULL DEFAULT 0',
+        callback_error:    'TEXT',
+      });
+    },
+  },
+  {
+    version: 14,
+    name: 'schedule_runs',
+    up(db) {
+      // One row per scheduled run the scheduler handled, so a restart knows
+      // which runs it missed
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS schedule_runs (
+          planned_at TEXT PRIMARY KEY,  -- ISO instant the run was due
+          cron       TEXT NOT NULL,
+          outcome    TEXT NOT NULL,     -- queued | skipped_busy | caught_up | missed
+          job_id     TEXT,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: 'api_keys',
+    up(db) {
+      // Only the SHA-256 of each key is kept; the key itself is shown once at creation
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS api_keys (
+          id           TEXT PRIMARY KEY,
+          name         TEXT NOT NULL,
+          key_hash     TEXT NOT NULL UNIQUE,
+          scopes       TEXT NOT NULL,   -- JSON array of trigger | read | admin
+          rate_limit   INTEGER,         -- requests per minute; NULL = API_RATE_LIMIT_PER_MINUTE
+          created_at   TEXT DEFAULT (datetime('now')),
+          last_used_at TEXT,
+          revoked_at   TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: 'job_kinds',
+    up(db) {
+      // Case tracking runs through the same queue as scrapes (one browser)
+      addMissingColumns(db, 'scrape_jobs', {
+        kind: "TEXT NOT NULL DEFAULT 'scrape'",  // scrape | track_cases
+      });
+    },
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Runner
+// ---------------------------------------------------------------------------
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version    INTEGER PRIMARY KEY,
+      name       TEXT NOT NULL,
+      applied_at TEXT DEFAULT (datetime('now'))
+    );
+  `);
+}
+
+/** Every known migration, with when it was applied (null if pending) */
+export function getMigrationStatus(db: Database.Database): MigrationStatus[] {
+  ensureMigrationsTable(db);
+  const applied = new Map(
+    (db.prepare('SELECT version, applied_at FROM schema_migrations').all() as Array<{ version: number; applied_at: string }>)
+      .map(row => [row.version, row.applied_at]),
+  );
+  return migrations.map(m => ({ version: m.version, name: m.name, applied_at: applied.get(m.version) ?? null }));
+}
+
+/** Apply every pending migration in version order. Each runs in its own
+ *  transaction; a failure rolls that one back and stops. Returns the ones applied. */
+export function applyMigrations(db: Database.Database): Migration[] {
+  const pending = getMigrationStatus(db).filter(m => m.applied_at === null);
+  const applied: Migration[] = [];
+
+  for (const { version } of pending) {
+    const migration = migrations.find(m => m.version === version)!;
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name);
+      })();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${message}`);
+    }
+    log.info(`Applied migration ${migration.version}: ${migration.name}`);
+    applied.push(migration);
+  }
+  return applied;
+}
@@ -0,0 +1,123 @@
+/**
+ * NAME FREQUENCY LISTS
+ *
+ * Bundled lists of common US given names and surnames, most frequent first,
+ * used by the name parser to tell which word of a property-record name is
+ * the surname. Compiled from the SSA given-name and Census 2010 surname
+ * rankings, with the Hispanic, Brazilian and Haitian names that are common
+ * in Central Florida records added in.
+ *
+ * Only the rank matters, so the lists stay plain words. A name may appear in
+ * both lists (JAMES, LEE): the parser weighs the two ranks against each other.
+ */
+
+function ranked(words: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+  for (const word of words.trim().split(/\s+/)) {
+    if (!ranks.has(word)) ranks.set(word, ranks.size + 1);
+  }
+  return ranks;
+}
+
+/** Given names, rank 1 = most common */
+export const FIRST_NAMES = ranked(`
+  JAMES MARY JOHN ROBERT MICHAEL PATRICIA WILLIAM JENNIFER DAVID LINDA RICHARD
+  ELIZABETH JOSEPH BARBARA THOMAS SUSAN CHARLES JESSICA CHRISTOPHER SARAH DANIEL
+  KAREN MATTHEW LISA ANTHONY NANCY MARK BETTY DONALD MARGARET STEVEN SANDRA PAUL
+  ASHLEY ANDREW KIMBERLY JOSHUA EMILY KENNETH DONNA KEVIN MICHELLE BRIAN CAROL
+  GEORGE AMANDA TIMOTHY DOROTHY RONALD MELISSA EDWARD DEBORAH JASON STEPHANIE
+  JEFFREY REBECCA RYAN SHARON JACOB LAURA GARY CYNTHIA NICHOLAS KATHLEEN ERIC AMY
+  JONATHAN ANGELA STEPHEN SHIRLEY LARRY ANNA JUSTIN BRENDA SCOTT PAMELA BRANDON
+  EMMA BENJAMIN NICOLE SAMUEL HELEN GREGORY SAMANTHA ALEXANDER KATHERINE FRANK
+  CHRISTINE PATRICK DEBRA RAYMOND RACHEL JACK CAROLYN DENNIS JANET JERRY CATHERINE
+  TYLER MARIA AARON HEATHER JOSE DIANE ADAM RUTH NATHAN JULIE HENRY OLIVIA DOUGLAS
+  JOYCE ZACHARY VIRGINIA PETER VICTORIA KYLE KELLY ETHAN LAUREN WALTER CHRISTINA
+  NOAH JOAN JEREMY EVELYN CHRISTIAN JUDITH KEITH MEGAN ROGER ANDREA TERRY CHERYL
+  GERALD HANNAH HAROLD JACQUELINE SEAN MARTHA AUSTIN GLORIA CARL TERESA ARTHUR ANN
+  LAWRENCE SARA DYLAN MADISON JESSE FRANCES JORDAN KATHRYN BRYAN JANICE BILLY JEAN
+  JOE ABIGAIL BRUCE ALICE GABRIEL JUDY LOGAN SOPHIA ALBERT GRACE WILLIE DENISE ALAN
+  AMBER JUAN DORIS WAYNE MARILYN ELIJAH DANIELLE RANDY BEVERLY ROY ISABELLA VINCENT
+  THERESA RALPH DIANA EUGENE NATALIE RUSSELL BRITTANY BOBBY CHARLOTTE MASON MARIE
+  PHILIP KAYLA LOUIS ALEXIS CARLOS LORI LUIS ROSA JORGE CARMEN MIGUEL ANA ANGEL
+  YOLANDA PEDRO GUADALUPE MANUEL MARTA RAFAEL LUZ RICARDO JUANA FRANCISCO ELENA
+  ANTONIO SILVIA JESUS BLANCA ALEJANDRO MARIBEL EDWIN GLADYS HECTOR NILDA RAMON
+  MILAGROS ROBERTO IRIS FERNANDO LOURDES JAVIER ALMA EDUARDO NORMA ORLANDO WANDA
+  ERNESTO YESENIA JULIO DAISY RAUL MAGALY SERGIO ISABEL ARMANDO ADRIANA OMAR
+  MARISOL VICTOR LETICIA MARIO BEATRIZ ALBERTO CLAUDIA ENRIQUE SONIA FELIX DIANA
+  ANDRES ESTHER ISMAEL LILIANA ELIAS CARLA JOAO FERNANDA PAULO JULIANA MARCOS
+  LUCIANA RODRIGO PATRICIA THIAGO CAMILA GUSTAVO BRUNA LEANDRO RENATA MARCELO
+  PRISCILA FABIO VANESSA WILLY MARIE JEAN ROSELINE JACQUES NADEGE PIERRE MIRLANDE
+  RONALDO GUERLINE FRITZ MARLENE JEAN-CLAUDE CHANTAL WILNER SHEILA DARNELL TAMIKA
+  TERRELL LATOYA DEANDRE KEISHA MARQUIS SHAMEKA TRAVIS CRYSTAL CORY ERICA SHAWN
+  TIFFANY DEREK MONICA DUSTIN APRIL LEE TAMMY TONY WENDY CLARENCE CONNIE EARL
+  VALERIE TROY TINA CURTIS BONNIE LEROY PEGGY HOWARD SHELLY CHAD DAWN MARCUS HOLLY
+  NORMAN REGINA GLENN ROBIN TODD PHYLLIS DALE ELAINE LEONARD LORRAINE STANLEY
+  CAROLINE MARVIN EDNA FRED ANITA ALLAN SHERRY HERBERT JOANN FREDERICK LUCILLE
+  MELVIN ALLISON CECIL KRISTEN CLIFFORD KRISTINA NEIL GAIL ERNEST TRACY CRAIG
+  STACY LEON SUZANNE BERNARD KAREN HERMAN MARSHA LLOYD VERONICA FLOYD JULIA RAY
+  BETH CALVIN KATIE ALVIN JOSEPHINE FRANKLIN SUE OSCAR PAULA ROSS EILEEN GRANT
+`);
+
+/** Surnames, rank 1 = most common */
+export const SURNAMES = ranked(`
+  SMITH JOHNSON WILLIAMS BROWN JONES GARCIA MILLER DAVIS RODRIGUEZ MARTINEZ
+  HERNANDEZ LOPEZ GONZALEZ WILSON ANDERSON THOMAS TAYLOR MOORE JACKSON MARTIN LEE
+  PEREZ THOMPSON WHITE HARRIS SANCHEZ CLARK RAMIREZ LEWIS ROBINSON WALKER YOUNG
+  ALLEN KING WRIGHT SCOTT TORRES NGUYEN HILL FLORES GREEN ADAMS NELSON BAKER HALL
+  RIVERA CAMPBELL MITCHELL CARTER ROBERTS GOMEZ PHILLIPS EVANS TURNER DIAZ PARKER
+  CRUZ EDWARDS COLLINS REYES STEWART MORRIS MORALES MURPHY COOK ROGERS GUTIERREZ
+  ORTIZ MORGAN COOPER PETERSON BAILEY REED KELLY HOWARD RAMOS KIM COX WARD
+  RICHARDSON WATSON BROOKS CHAVEZ WOOD JAMES BENNETT GRAY MENDOZA RUIZ HUGHES
+  PRICE ALVAREZ CASTILLO SANDERS PATEL MYERS LONG ROSS FOSTER JIMENEZ POWELL
+  JENKINS PERRY RUSSELL SULLIVAN BELL COLEMAN BUTLER HENDERSON BARNES GONZALES
+  FISHER VASQUEZ SIMMONS ROMERO JORDAN PATTERSON ALEXANDER HAMILTON GRAHAM
+  REYNOLDS GRIFFIN WALLACE MORENO WEST COLE HAYES BRYANT HERRERA GIBSON ELLIS TRAN
+  MEDINA AGUILAR STEVENS MURRAY FORD CASTRO MARSHALL OWENS HARRISON FERNANDEZ
+  MCDONALD WOODS WASHINGTON KENNEDY WELLS VARGAS HENRY CHEN FREEMAN WEBB TUCKER
+  GUZMAN BURNS CRAWFORD OLSON SIMPSON PORTER HUNTER GORDON MENDEZ SILVA SHAW
+  SNYDER MASON DIXON MUNOZ HUNT HICKS HOLMES PALMER WAGNER BLACK ROBERTSON BOYD
+  ROSE STONE SALAZAR FOX WARREN MILLS MEYER RICE SCHMIDT GARZA DANIELS FERGUSON
+  NICHOLS STEPHENS SOTO WEAVER RYAN GARDNER PAYNE GRANT DUNN KELLEY SPENCER
+  HAWKINS ARNOLD PIERCE VAZQUEZ HANSEN PETERS SANTOS HART BRADLEY KNIGHT ELLIOTT
+  CUNNINGHAM DUNCAN ARMSTRONG HUDSON CARROLL LANE RILEY ANDREWS ALVARADO RAY
+  DELGADO BERRY PERKINS HOFFMAN JOHNSTON MATTHEWS PENA RICHARDS CONTRERAS WILLIS
+  CARPENTER LAWRENCE SANDOVAL GUERRERO GEORGE CHAPMAN RIOS ESTRADA ORTEGA WATKINS
+  GREENE NUNEZ WHEELER VALDEZ HARPER BURKE LARSON SANTIAGO MALDONADO MORRISON
+  FRANKLIN CARLSON AUSTIN DOMINGUEZ CARR LAWSON JACOBS OBRIEN LYNCH SINGH VEGA
+  BISHOP MONTGOMERY OLIVER JENSEN HARVEY WILLIAMSON GILBERT DEAN SIMS ESPINOZA
+  HOWELL LI WONG REID HANSON LE MCCOY GARRETT BURTON FULLER WANG WEBER WELCH ROJAS
+  LUCAS MARQUEZ FIELDS PARK YANG LITTLE BANKS PADILLA DAY WALSH BOWMAN SCHULTZ
+  LUNA FOWLER MEJIA DAVIDSON ACOSTA BREWER MAY HOLLAND JUAREZ NEWMAN PEARSON
+  CURTIS CORTEZ DOUGLAS SCHNEIDER JOSEPH BARRETT NAVARRO FIGUEROA KELLER AVILA
+  WADE MOLINA STANLEY HOPKINS CAMPOS BARNETT BATES CHAMBERS CALDWELL BECK LAMBERT
+  MIRANDA BYRD CRAIG AYALA LOWE FRAZIER POWERS NEAL LEONARD GREGORY CARRILLO
+  SUTTON FLEMING RHODES SHELTON SCHWARTZ NORRIS JENNINGS WATTS DURAN WALTERS
+  COHEN MCDANIEL MORAN PARKS STEELE VAUGHN BECKER HOLT DELEON BARKER TERRY HALE
+  LEON BENSON HAYNES HORTON MILES LYONS PHAM GRAVES BUSH THORNTON WOLFE
+  WARNER CABRERA MCKINNEY MANN ZIMMERMAN DAWSON LARA FLETCHER PAGE MCCARTHY LOVE
+  ROBLES CERVANTES SOLIS ERICKSON REEVES CHANG KLEIN SALINAS FUENTES BALDWIN
+  DANIEL SIMON VELASQUEZ HARDY HIGGINS AGUIRRE LIN CUMMINGS CHANDLER SHARP BARBER
+  BOWEN OCHOA DENNIS ROBBINS LIU RAMSEY FRANCIS GRIFFITH PAUL BLAIR OCONNOR
+  CARDENAS PACHECO CROSS CALDERON QUINN MOSS SWANSON CHAN RIVAS KHAN RODGERS
+  SERRANO FITZGERALD ROSALES STEVENSON CHRISTENSEN MANNING GILL CURRY MCLAUGHLIN
+  HARMON MCGEE GROSS DOYLE GARNER NEWTON BURGESS REESE WALTON BLAKE TRUJILLO
+  ADKINS BRADY GOODMAN ROMAN WEBSTER GOODWIN FISCHER HUANG POTTER DELACRUZ
+  MONTOYA TODD WU HINES MULLINS CASTANEDA MALONE CANNON TATE MACK SHERMAN HUBBARD
+  HODGES ZHANG GUERRA WOLF VALENCIA SAUNDERS FRANCO ROWE GALLAGHER FARMER HAMMOND
+  HAMPTON TOWNSEND INGRAM WISE GALLEGOS CLARKE BARTON SCHROEDER MAXWELL WATERS
+  LOGAN CAMACHO STRICKLAND NORMAN PERSON COLON PARSONS FRANK HARRINGTON GLOVER
+  OSBORNE BUCHANAN CASEY FLOYD PATTON IBARRA BALL TYLER SUAREZ BOWERS OROZCO
+  SALAS COBB GIBBS ANDRADE BAUER CONNER MOODY ESCOBAR MCGUIRE LLOYD MUELLER
+  HARTMAN FRENCH KRAMER MCBRIDE POPE LINDSEY VELAZQUEZ NORTON MCCORMICK SPARKS
+  FLYNN YATES HOGAN MARSH MACIAS VILLANUEVA ZAMORA PRATT STOKES OWEN BALLARD LANG
+  BROCK VILLARREAL CHARLES DRAKE BARRERA CAIN PATRICK PINEDA BURNETT MERCADO
+  SANTANA SHEPHERD BAUTISTA ALI SHAFFER LAMB TREVINO MCKENZIE HESS OLSEN
+  COCHRAN MORTON NASH WILKINS PETERSEN BRIGGS SHAH ROTH NICHOLSON HOLLOWAY LOZANO
+  FLOWERS RANGEL HOOVER ARIAS CARSON SOSA ROSARIO ACEVEDO APONTE BURGOS PAGAN
+  MARRERO QUINONES VELEZ FELICIANO ROSA IRIZARRY VAZQUEZ CINTRON OTERO NIEVES
+  ORTIZ TORRES MATOS ALICEA CORDERO BATISTA OLIVEIRA SOUZA SOUSA PEREIRA ALMEIDA
+  COSTA CARVALHO FERREIRA RIBEIRO ARAUJO LIMA BARBOSA ROCHA DIAS NASCIMENTO
+  MOREIRA CAVALCANTI PIERRE JEAN LOUIS BAPTISTE ETIENNE JOSEPH CHARLES FRANCOIS
+  AUGUSTIN DORVIL DESIR ALEXIS CELESTIN ST-LOUIS REMY PAUL NOEL TOUSSAINT
+  DESTIN THELUSMA LAGUERRE VOLCY VALCOURT EXANTUS CADET
+`);
@@ -0,0 +1,113 @@
+/**
+ * Tests for nameParser.ts — the name shapes in its module header, plus the
+ * Vietnamese names a particle or keyword rule could mistake for a compound
+ * surname or a business.
+ *
+ * Usage: npm test
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseName, detectSurname, splitPersonName } from './nameParser.js';
+
+// ---------------------------------------------------------------------------
+// Name shapes
+// ---------------------------------------------------------------------------
+
+describe('parseName', () => {
+  test('LASTNAME FIRSTNAME MIDDLE: the trailing initial settles the order', () => {
+    const parsed = parseName('SMITH JOHN A');
+    assert.equal(parsed.kind, 'person');
+    assert.deepEqual(parsed.candidates, [{ surname: 'SMITH', confidence: 1 }]);
+  });
+
+  test('FIRST LAST: the frequency lists pick the surname at the end', () => {
+    assert.equal(detectSurname('SHARNIQUE ALLEN'), 'ALLEN');
+  });
+
+  test('LAST, FIRST: a comma always means the surname comes first', () => {
+    assert.deepEqual(parseName('SMITH, JOHN').candidates, [{ surname: 'SMITH', confidence: 1 }]);
+  });
+
+  test('compound surname: leading particles join the surname', () => {
+    assert.equal(detectSurname('DE OLIVEIRA MARIA'), 'DE OLIVEIRA');
+    assert.equal(detectSurname('DE LA CRUZ MARIA'), 'DE LA CRUZ');
+    assert.equal(detectSurname('MC DONALD JAMES'), 'MC DONALD');
+    assert.equal(detectSurname('JOHN VAN DER BERG'), 'VAN DER BERG');
+  });
+
+  test('suffixes are kept apart from the name', () => {
+    const parsed = parseName('SMITH JOHN JR');
+    assert.equal(parsed.suffix, 'JR');
+    assert.equal(parsed.candidates[0].surname, 'SMITH');
+  });
+
+  test('trusts and estates wrap a person', () => {
+    const trust = parseName('JOHN SMITH REVOCABLE TRUST');
+    assert.equal(trust.kind, 'trust');
+    assert.equal(trust.candidates[0].surname, 'SMITH');
+
+    const estate = parseName('ESTATE OF JOHN SMITH');
+    assert.equal(estate.kind, 'estate');
+    assert.equal(estate.candidates[0].surname, 'SMITH');
+  });
+
+  test('AKA variants are averaged, so the surname they share wins', () => {
+    const parsed = parseName('SMITH JOHN AKA JOHNNY SMITH');
+    assert.deepEqual(parsed.variants, ['SMITH JOHN', 'JOHNNY SMITH']);
+    assert.equal(parsed.candidates[0].surname, 'SMITH');
+    assert.ok(parsed.candidates[0].confidence > 0.9);
+  });
+
+  test('business names have no surname', () => {
+    const parsed = parseName('ACME HOLDINGS LLC');
+    assert.equal(parsed.kind, 'entity');
+    assert.deepEqual(parsed.candidates, []);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Vietnamese names
+// ---------------------------------------------------------------------------
+
+describe('Vietnamese names', () => {
+  test('VAN after the surname is a middle name, not a particle', () => {
+    assert.equal(detectSurname('NGUYEN VAN MINH'), 'NGUYEN');
+    assert.equal(detectSurname('TRAN VAN HUNG'), 'TRAN');
+  });
+
+  test('LE does not join a THI or VAN middle name', () => {
+    assert.equal(detectSurname('LE THI HOA'), 'LE');
+    assert.equal(detectSurname('LE VAN TAM'), 'LE');
+  });
+
+  test('HOA alone is a given name; with an association word it is a business', () => {
+    assert.equal(parseName('LE THI HOA').kind, 'person');
+    assert.equal(parseName('RIDGEMOORE HOA INC').kind, 'entity');
+    assert.equal(parseName('LAKE SUNSET HOA COMMUNITY ASSN').kind, 'entity');
+  });
+
+  test('a particle leading the name still starts a compound surname', () => {
+    assert.equal(detectSurname('VAN DYKE JOHN'), 'VAN DYKE');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// First / last split for skip tracing
+// ---------------------------------------------------------------------------
+
+describe('splitPersonName', () => {
+  test('takes the first given name after the surname', () => {
+    assert.deepEqual(splitPersonName('SMITH JOHN A'), { first_name: 'JOHN', last_name: 'SMITH' });
+    assert.deepEqual(splitPersonName('DE OLIVEIRA MARIA'), { first_name: 'MARIA', last_name: 'DE OLIVEIRA' });
+  });
+
+  test('skips a Vietnamese middle name for the given name after it', () => {
+    assert.deepEqual(splitPersonName('NGUYEN VAN MINH'), { first_name: 'MINH', last_name: 'NGUYEN' });
+    assert.deepEqual(splitPersonName('LE THI HOA'), { first_name: 'HOA', last_name: 'LE' });
+  });
+
+  test('is null for a business name', () => {
+    assert.equal(splitPersonName('ACME HOLDINGS LLC'), null);
+  });
+});
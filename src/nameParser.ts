@@ -0,0 +1,268 @@
+/**
+ * PROPERTY-RECORD NAME PARSER
+ *
+ * Works out the surname in a grantee name as the clerk or property appraiser
+ * printed it, without calling out to an LLM. Record names come in several
+ * shapes:
+ *
+ *   SMITH JOHN A                  LASTNAME FIRSTNAME MIDDLE (the usual order)
+ *   SHARNIQUE ALLEN               FIRST LAST
+ *   SMITH, JOHN                   comma-separated, always LAST, FIRST
+ *   DE OLIVEIRA MARIA             compound surname (DE, DEL, VAN, MC, ST, ...)
+ *   NGUYEN VAN MINH               Vietnamese LAST MIDDLE FIRST (VAN, THI middle names)
+ *   SMITH JOHN JR                 suffixes
+ *   JOHN SMITH REVOCABLE TRUST    trusts and estates wrap a person's name
+ *   SMITH JOHN AKA JOHNNY SMITH   several names for one person
+ *
+ * For an ambiguous order, the bundled first-name and surname frequency lists
+ * decide which end of the name is the surname, with a lean towards LAST FIRST.
+ * Business names (LLC, INC, BANK, ...) have no surname and get no candidates.
+ */
+
+import { FIRST_NAMES, SURNAMES } from './nameFrequencies.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type NameKind = 'person' | 'trust' | 'estate' | 'entity';
+
+export interface SurnameCandidate {
+  surname: string;
+  confidence: number; // 0..1
+}
+
+export interface ParsedName {
+  raw: string;
+  kind: NameKind;
+  /** Every name the person goes by ("AKA" variants), normalized */
+  variants: string[];
+  suffix: string | null;
+  /** Most likely surname first. Empty for business entities. */
+  candidates: SurnameCandidate[];
+}
+
+// ---------------------------------------------------------------------------
+// Vocabulary
+// ---------------------------------------------------------------------------
+
+/** Particles that are part of the surname that follows them ("DE OLIVEIRA") */
+export const NAME_PREFIXES = ['DE', 'DEL', 'DELA', 'DELLA', 'DA', 'DOS', 'DI', 'DU', 'VAN', 'VON', 'DER', 'LA', 'LE', 'MC', 'MAC', 'ST'];
+
+/** Vietnamese middle names, which are never surname particles when they follow
+ *  the surname ("NGUYEN VAN MINH", "LE THI HOA") */
+const MIDDLE_NAMES = ['VAN', 'THI'];
+
+const SUFFIXES = new Set(['JR', 'SR', 'II', 'III', 'IV', 'ESQ', 'MD', 'PHD', 'DDS']);
+
+/** Words that make a name a business or government body rather than a person */
+const ENTITY_KEYWORDS = [
+  'LLC', 'L L C', 'INC', 'CORP', 'CORPORATION', 'COMPANY', 'CO', 'LTD', 'LP', 'LLP', 'PA', 'PLLC',
+  'ASSOCIATION', 'ASSN', 'BANK', 'FINANCE', 'MORTGAGE', 'LENDING', 'SERVICES', 'SERVICING',
+  'HOLDINGS', 'PROPERTIES', 'VENTURES', 'ENTERPRISES', 'GROUP', 'PARTNERS', 'PARTNERSHIP', 'FUND',
+  'INVESTMENTS', 'CAPITAL', 'NATIONAL', 'FEDERAL', 'SAVINGS', 'CREDIT UNION', 'HOMEOWNERS',
+  'CONDOMINIUM', 'CONDO', 'COUNTY', 'STATE OF', 'CITY OF', 'SECRETARY OF', 'DEPARTMENT OF',
+  'HOUSING AUTHORITY', 'CHURCH', 'MINISTRIES', 'FOUNDATION', 'UNITED STATES',
+];
+
+/** HOA is also a Vietnamese given name ("LE THI HOA") — it only marks an
+ *  association alongside one of these words */
+const HOA_ASSOCIATION_WORDS = ['ASSOCIATION', 'ASSN', 'INC', 'COMMUNITY', 'MASTER', 'OWNERS'];
+
+/** Words that wrap a person's name in a trust, removed before parsing it */
+const TRUST_WORDS = /\b(?:AS\s+)?(?:CO-?)?TRUSTEES?(?:\s+OF)?\b|\b(?:IR)?REVOCABLE\b|\bLIVING\b|\bFAMILY\b|\bLAND\b|\bTRUST\b|\bTRS?\b|\bU\/?A\/?D?\b|\bUTD\b|\bDATED\b|\bDTD\b|\bAGREEMENT\b|\bTHE\b|\b\d{1,2}\/\d{1,2}\/\d{2,4}\b|\b\d+\b/g;
+
+/** Words that wrap a person's name in an estate */
+const ESTATE_WORDS = /\b(?:THE\s+)?(?:UNKNOWN\s+)?(?:HEIRS|DEVISEES|BENEFICIARIES)(?:\s+OF)?\b|\bESTATE\s+OF\b|\bEST\s+OF\b|\bESTATE\b|\bDECEASED\b|\bDEC'?D\b|\bTHE\b/g;
+
+const AKA = /\s+(?:A\/K\/A|AKA|F\/K\/A|FKA|N\/K\/A|NKA|ALSO KNOWN AS|FORMERLY KNOWN AS)\s+/;
+
+// ---------------------------------------------------------------------------
+// Frequency scores
+// ---------------------------------------------------------------------------
+
+/** 0 when the name isn't listed, 0.4..1 from the rarest to the most common */
+function frequency(list: Map<string, number>, name: string): number {
+  const rank = list.get(name);
+  if (!rank) return 0;
+  return 1 - 0.6 * Math.log(rank) / Math.log(list.size);
+}
+
+/** How much more a word looks like a surname than a given name (-1..1) */
+function surnameLean(word: string): number {
+  // A prefixed compound ("DE OLIVEIRA", "MC DONALD") is only ever a surname
+  if (word.includes(' ')) return 1;
+
+  const parts = word.split('-');
+  if (parts.length > 1 && !FIRST_NAMES.has(word)) {
+    // GARCIA-LOPEZ: as surname-like as its most surname-like half
+    return Math.max(...parts.map(surnameLean));
+  }
+  return frequency(SURNAMES, word) - frequency(FIRST_NAMES, word);
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function normalize(name: string): string {
+  return name.toUpperCase().replace(/[.]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function hasWord(name: string, word: string): boolean {
+  return new RegExp(`(?:^|[\\s,])${word}(?:$|[\\s,])`).test(name);
+}
+
+function isEntity(name: string): boolean {
+  if (ENTITY_KEYWORDS.some(keyword => hasWord(name, keyword))) return true;
+  return hasWord(name, 'HOA') && HOA_ASSOCIATION_WORDS.some(word => hasWord(name, word));
+}
+
+/** Whether words[i] starts (or continues) a compound surname */
+function isParticle(words: string[], i: number): boolean {
+  const word = words[i];
+  const next = words[i + 1];
+  if (!NAME_PREFIXES.includes(word) || next === undefined) return false;
+  // LE THI HOA: a particle doesn't attach to a Vietnamese middle name
+  if (MIDDLE_NAMES.includes(next)) return false;
+  // NGUYEN VAN MINH: VAN after the surname is a middle name (but JOHN VAN DER BERG)
+  if (i > 0 && MIDDLE_NAMES.includes(word) && !NAME_PREFIXES.includes(next)) return false;
+  // The merged word would be the last of a three-word name — a given name
+  // ("TRAN VAN HUNG"), not a compound surname
+  if (words.length === 3 && i === 1) return false;
+  return true;
+}
+
+/** Merge prefix particles into the word after them: DE LA CRUZ MARIA → [DE LA CRUZ, MARIA] */
+function joinPrefixes(words: string[]): string[] {
+  const joined: string[] = [];
+  let pending: string[] = [];
+  for (const [i, word] of words.entries()) {
+    if (isParticle(words, i)) {
+      pending.push(word);
+      continue;
+    }
+    joined.push([...pending, word].join(' '));
+    pending = [];
+  }
+  // A trailing particle is more likely an initial ("SMITH JOHN O")
+  joined.push(...pending);
+  return joined;
+}
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/** Surname candidates for one person's name, with confidences summing to 1 */
+function rankPersonName(name: string, kind: NameKind): { candidates: SurnameCandidate[]; suffix: string | null } {
+  const hasComma = name.includes(',');
+
+  // "SMITH JOHN & MARY" → SMITH JOHN; "JOHN & MARY SMITH" → MARY SMITH
+  const people = name.split(/\s*(?:&|\bAND\b)\s*/).map(p => p.trim()).filter(Boolean);
+  let person = people[0] ?? '';
+  if (people.length > 1 && person.split(' ').length === 1 && people[people.length - 1].split(' ').length >= 2) {
+    person = people[people.length - 1];
+  }
+
+  let suffix: string | null = null;
+  const rawWords = person.replace(/,/g, ' ').split(/\s+/).filter(Boolean).filter(word => {
+    if (SUFFIXES.has(word)) {
+      suffix = word;
+      return false;
+    }
+    return true;
+  });
+
+  const words = joinPrefixes(rawWords);
+  const names = words.filter(w => w.length > 1);
+  if (names.length === 0) return { candidates: [], suffix };
+  if (names.length === 1) return { candidates: [{ surname: names[0], confidence: 0.5 }], suffix };
+
+  const first = names[0];
+  const last = names[names.length - 1];
+
+  // Evidence for LAST FIRST (first word is the surname) over FIRST LAST
+  let evidence = 0.4; // Property records lean LAST FIRST
+  evidence += (surnameLean(first) - surnameLean(names[1])) - (surnameLean(last) - surnameLean(first));
+  if (hasComma) evidence += 3;
+  if (words[words.length - 1].length === 1) evidence += 1;                           // SMITH JOHN A
+  if (words.length === 3 && words[1].length === 1) evidence -= 0.5;                   // JOHN A SMITH
+  if (kind === 'estate' || kind === 'trust') evidence -= 0.3;                         // ESTATE OF JOHN SMITH
+
+  const lastFirst = sigmoid(2 * evidence);
+  return {
+    candidates: [
+      { surname: first, confidence: lastFirst },
+      { surname: last, confidence: 1 - lastFirst },
+    ],
+    suffix,
+  };
+}
+
+/** Parse a property-record name into surname candidates, most likely first */
+export function parseName(raw: string): ParsedName {
+  const normalized = normalize(raw);
+  const variants = normalized.split(AKA).map(v => v.trim()).filter(Boolean);
+
+  let kind: NameKind | null = null;
+  let suffix: string | null = null;
+  let people = 0;
+  const scores = new Map<string, number>();
+
+  for (const variant of variants) {
+    let name = variant;
+    let variantKind: NameKind = 'person';
+
+    if (/\bESTATE\b|\bEST OF\b|\bHEIRS\b|\bDECEASED\b|\bDEC'?D\b/.test(name)) {
+      variantKind = 'estate';
+      name = name.replace(ESTATE_WORDS, ' ');
+    } else if (/\bTRUST\b|\bTRUSTEES?\b|\bTRS?\b/.test(name)) {
+      variantKind = 'trust';
+      name = name.replace(TRUST_WORDS, ' ');
+    }
+    name = name.replace(/\s+/g, ' ').replace(/^[\s,]+|[\s,]+$/g, '');
+
+    // A trust or estate can still be a company's ("ACME HOLDINGS LLC TRUST")
+    if (!name || isEntity(name)) continue;
+
+    kind ??= variantKind;
+    people++;
+    const ranked = rankPersonName(name, variantKind);
+    suffix ??= ranked.suffix;
+    for (const { surname, confidence } of ranked.candidates) {
+      scores.set(surname, (scores.get(surname) ?? 0) + confidence);
+    }
+  }
+
+  // Average over the variants, so a surname every AKA agrees on stays near 1
+  const candidates = [...scores]
+    .map(([surname, total]) => ({ surname, confidence: Math.round((total / people) * 100) / 100 }))
+    .filter(c => c.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  return { raw, kind: kind ?? 'entity', variants, suffix, candidates };
+}
+
+/** The most likely surname, or "" for a business name */
+export function detectSurname(name: string): string {
+  return parseName(name).candidates[0]?.surname ?? '';
+}
+
+/** First and last name of a person's record name, as skip tracers want them:
+ *  "SMITH JOHN A" → JOHN / SMITH. Null for a business name. */
+export function splitPersonName(name: string): { first_name: string; last_name: string } | null {
+  const parsed = parseName(name);
+  const lastName = parsed.candidates[0]?.surname;
+  if (!lastName) return null;
+
+  // Same clean-up as parseName: drop the estate/trust wording around the person
+  let person = parsed.variants[0];
+  if (parsed.kind === 'estate') person = person.replace(ESTATE_WORDS, ' ');
+  if (parsed.kind === 'trust') person = person.replace(TRUST_WORDS, ' ');
+
+  const words = joinPrefixes(person.replace(/,/g, ' ').split(/\s+/).filter(Boolean))
+    .filter(word => !SUFFIXES.has(word));
+  const given = words.filter(word => word !== lastName && word.length > 1 && !/[&]/.test(word) && word !== 'AND');
+  // NGUYEN VAN MINH → MINH: skip a Vietnamese middle name when there's a given name after it
+  const firstName = given.find(word => !MIDDLE_NAMES.includes(word)) ?? given[0] ?? '';
+  return { first_name: firstName, last_name: lastName };
+}
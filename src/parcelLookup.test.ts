@@ -0,0 +1,291 @@
+/**
+ * Tests for parcelLookup.ts, run against recorded ArcGIS responses in
+ * fixtures/arcgis/ instead of the live FeatureServer.
+ *
+ * Usage: npm test
+ */
+
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import {
+  buildExactWhere, buildLikeWhere, matchLegalDescription, ownerNameMatches, lookupAddress,
+  arcGisParcelSource, createArcGisClient, type ArcGisClient, type ParcelFeature,
+} from './parcelLookup.js';
+
+const ORANGE = 58;
+
+function fixture(name: string): { features?: ParcelFeature[]; error?: { message?: string } } {
+  return JSON.parse(fs.readFileSync(new URL(`./fixtures/arcgis/${name}.json`, import.meta.url), 'utf8'));
+}
+
+/** An ArcGisClient that answers each WHERE clause with a fixture (empty.json
+ *  for anything else) and records the clauses it was asked */
+function fixtureClient(responses: Record<string, string>): ArcGisClient & { queries: string[] } {
+  const queries: string[] = [];
+  return {
+    queries,
+    async query(where) {
+      queries.push(where);
+      const body = fixture(responses[where] ?? 'empty');
+      if (body.error) throw new Error(`ArcGIS query failed: ${body.error.message}`);
+      return body.features ?? [];
+    },
+  };
+}
+
+function feature(ownName: string, legal: string): ParcelFeature {
+  return { attributes: { OWN_NAME: ownName, S_LEGAL: legal } };
+}
+
+// ---------------------------------------------------------------------------
+// Query building
+// ---------------------------------------------------------------------------
+
+describe('buildExactWhere', () => {
+  test('matches the owner name exactly within the county', () => {
+    assert.equal(buildExactWhere(ORANGE, 'SMITH JOHN A'), "CO_NO=58 AND OWN_NAME='SMITH JOHN A'");
+  });
+
+  test('escapes quotes in the name', () => {
+    assert.equal(buildExactWhere(ORANGE, "O'BRIEN SEAN"), "CO_NO=58 AND OWN_NAME='O''BRIEN SEAN'");
+  });
+});
+
+describe('buildLikeWhere', () => {
+  test('searches the surname alone when there are no other name parts', () => {
+    assert.equal(buildLikeWhere(ORANGE, 'smith', []), "CO_NO=58 AND OWN_NAME LIKE '%SMITH%'");
+  });
+
+  test('requires the surname and any one of the other name parts', () => {
+    assert.equal(
+      buildLikeWhere(ORANGE, 'DOE', ['jane', "o'neil"]),
+      "CO_NO=58 AND OWN_NAME LIKE '%DOE%' AND (OWN_NAME LIKE '%JANE%' OR OWN_NAME LIKE '%O''NEIL%')",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+describe('matchLegalDescription', () => {
+  test('picks the parcel whose legal description has the subdivision keywords', () => {
+    const features = fixture('exact-multiple').features!;
+    const match = matchLegalDescription(features, 'RIDGEMOORE PHASE ONE');
+    assert.equal(match.feature?.attributes.PARCELNO, '312206733000070');
+    assert.equal(match.score, 2);
+    assert.equal(match.unique_score, 1);
+    assert.equal(match.total_keywords, 2); // ONE is too short to count
+  });
+
+  test('matches whole words only', () => {
+    const match = matchLegalDescription([feature('X', 'VISTANA RESORT CONDO')], 'VISTA RESORT');
+    assert.equal(match.score, 1);
+    assert.equal(match.feature, null);
+  });
+
+  test('needs a distinctive keyword, not just stop words', () => {
+    const match = matchLegalDescription([feature('X', 'LAKES PHASE 2 UNIT 4')], 'LAKES PHASE UNIT');
+    assert.equal(match.score, 3);
+    assert.equal(match.unique_score, 0);
+    assert.equal(match.feature, null);
+  });
+
+  test('never matches a subdivision with a single keyword', () => {
+    const match = matchLegalDescription([feature('X', 'RIDGEMOORE 62/101 LOT 7')], 'RIDGEMOORE');
+    assert.equal(match.score, 1);
+    assert.equal(match.feature, null);
+  });
+
+  test('prefers more distinctive matches on a tie', () => {
+    const common = feature('A', 'HUNTERS PARK ESTATES');
+    const distinctive = feature('B', 'HUNTERS CREEK');
+    const match = matchLegalDescription([common, distinctive], 'HUNTERS CREEK PARK');
+    assert.equal(match.feature, distinctive);
+  });
+
+  test('finds nothing among no parcels', () => {
+    assert.equal(matchLegalDescription([], 'RIDGEMOORE PHASE ONE').feature, null);
+  });
+});
+
+describe('ownerNameMatches', () => {
+  test('accepts an owner sharing a whole name part with the grantee', () => {
+    assert.equal(ownerNameMatches('DOE JANET L', 'DOE JANE'), true);
+    assert.equal(ownerNameMatches('SMITH, JOHN', 'JOHN SMITH'), true);
+  });
+
+  test('rejects an owner who only contains the surname', () => {
+    assert.equal(ownerNameMatches('DOEBLER RICHARD', 'DOE JANE', 'DOE'), false);
+  });
+
+  test('accepts an owner carrying the retry surname', () => {
+    assert.equal(ownerNameMatches('GARCIA-LOPEZ TRUST', 'MARIA ELENA', 'GARCIA-LOPEZ'), true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+describe('lookupAddress', () => {
+  const filing = (grantee: string, legal: string) => ({
+    county: 'orange',
+    document_number: '20260012345',
+    grantee_name: grantee,
+    legal_description: legal,
+  });
+
+  test('exact_name: one parcel for the exact owner name', async () => {
+    const client = fixtureClient({ "CO_NO=58 AND OWN_NAME='SMITH JOHN A'": 'exact-single' });
+    const result = await lookupAddress(filing('SMITH JOHN A', 'Lot: 7 LAKE DOT TERRACE'), { source: arcGisParcelSource(client) });
+
+    assert.equal(result.lookup_status, 'matched');
+    assert.equal(result.match_method, 'exact_name');
+    assert.equal(result.property_address, '1204 LAKE DOT CIR');
+    assert.equal(result.property_zip, '32801');
+    assert.equal(result.parcel_source, 'arcgis');
+    assert.equal(result.homestead, true);
+    assert.equal(result.owner_matches_grantee, true);
+    assert.equal(result.retrying_surname, null);
+    assert.deepEqual(client.queries, ["CO_NO=58 AND OWN_NAME='SMITH JOHN A'"]);
+  });
+
+  test('legal_description: several parcels for the exact name, picked by subdivision', async () => {
+    const client = fixtureClient({ "CO_NO=58 AND OWN_NAME='RIEHLE ANDREW'": 'exact-multiple' });
+    const result = await lookupAddress(
+      filing('RIEHLE ANDREW\nRIEHLE MARY\nUNKNOWN TENANT', 'Lot: 7 RIDGEMOORE PHASE ONE'),
+      { source: arcGisParcelSource(client) },
+    );
+
+    assert.equal(result.lookup_status, 'matched');
+    assert.equal(result.match_method, 'legal_description');
+    assert.equal(result.property_address, '5038 TUSCAN OAK DR');
+    assert.equal(result.total_results, 3);
+    assert.equal(result.match_score, 2);
+    assert.deepEqual(result.all_grantees, ['RIEHLE ANDREW', 'RIEHLE MARY']);
+  });
+
+  test('failed: several parcels for the exact name, none in the subdivision', async () => {
+    const client = fixtureClient({ "CO_NO=58 AND OWN_NAME='RIEHLE ANDREW'": 'exact-multiple' });
+    const result = await lookupAddress(filing('RIEHLE ANDREW', 'Lot: 3 WATERFORD CHASE VILLAGE'), { source: arcGisParcelSource(client) });
+
+    assert.equal(result.lookup_status, 'no_legal_match');
+    assert.equal(result.match_method, 'failed');
+    assert.equal(result.property_address, null);
+    assert.equal(result.owner_matches_grantee, null);
+    assert.equal(client.queries.length, 1); // No LIKE retry after an exact hit
+  });
+
+  test('like_single: no exact match, one parcel for the surname and another name part', async () => {
+    const client = fixtureClient({
+      "CO_NO=58 AND OWN_NAME LIKE '%GARCIA-LOPEZ%' AND (OWN_NAME LIKE '%MARIA%' OR OWN_NAME LIKE '%ELENA%')": 'like-single',
+    });
+    const result = await lookupAddress(filing('GARCIA-LOPEZ MARIA ELENA', 'Lot: 44 CONWAY ESTATES'), { source: arcGisParcelSource(client) });
+
+    assert.equal(result.lookup_status, 'matched');
+    assert.equal(result.match_method, 'like_single');
+    assert.equal(result.retrying_surname, 'GARCIA-LOPEZ');
+    assert.equal(result.property_address, '2711 CURRY FORD RD');
+    assert.equal(client.queries.length, 2);
+  });
+
+  test('like_legal_description: several LIKE parcels, filtered by owner then subdivision', async () => {
+    const client = fixtureClient({
+      "CO_NO=58 AND OWN_NAME LIKE '%DOE%' AND (OWN_NAME LIKE '%JANE%')": 'like-multiple',
+    });
+    const result = await lookupAddress(
+      filing('DOE JANE', 'Lot: 12 HUNTERS CREEK TRACT 525'),
+      { source: arcGisParcelSource(client), detectSurname: () => 'DOE' },
+    );
+
+    assert.equal(result.lookup_status, 'matched');
+    assert.equal(result.match_method, 'like_legal_description');
+    // DOEBLER's parcel scores the same but isn't the grantee's
+    assert.equal(result.parcel_number, '302431525200120');
+    assert.equal(result.total_results, 3);
+    assert.equal(result.candidates_after_name_filter, 2);
+  });
+
+  test('failed: several LIKE parcels, none in the subdivision', async () => {
+    const client = fixtureClient({
+      "CO_NO=58 AND OWN_NAME LIKE '%DOE%' AND (OWN_NAME LIKE '%JANE%')": 'like-multiple',
+    });
+    const result = await lookupAddress(filing('DOE JANE', 'Lot: 1 AVALON PARK VILLAGE'), {
+      source: arcGisParcelSource(client),
+      detectSurname: () => 'DOE',
+    });
+
+    assert.equal(result.lookup_status, 'no_match_found');
+    assert.equal(result.match_method, 'failed');
+    assert.equal(result.property_address, null);
+  });
+
+  test('exhausted: nothing for the exact name, the surname with other parts, or the surname alone', async () => {
+    const client = fixtureClient({});
+    const result = await lookupAddress(filing('QUIGLEY BARNABY', 'Lot: 1 AVALON PARK VILLAGE'), { source: arcGisParcelSource(client) });
+
+    assert.equal(result.lookup_status, 'not_found');
+    assert.equal(result.match_method, 'exhausted');
+    assert.equal(result.error, null);
+    assert.deepEqual(client.queries, [
+      "CO_NO=58 AND OWN_NAME='QUIGLEY BARNABY'",
+      "CO_NO=58 AND OWN_NAME LIKE '%QUIGLEY%' AND (OWN_NAME LIKE '%BARNABY%')",
+      "CO_NO=58 AND OWN_NAME LIKE '%QUIGLEY%'",
+    ]);
+  });
+
+  test('exhausted: an ArcGIS error counts as no parcels but is kept on the result', async () => {
+    const client = fixtureClient({ "CO_NO=58 AND OWN_NAME='QUIGLEY BARNABY'": 'error' });
+    const result = await lookupAddress(filing('QUIGLEY BARNABY', 'Lot: 1 AVALON PARK VILLAGE'), { source: arcGisParcelSource(client) });
+
+    assert.equal(result.match_method, 'exhausted');
+    assert.equal(result.error, 'ArcGIS query failed: Unable to complete operation.');
+  });
+
+  test('error: unknown county', async () => {
+    const result = await lookupAddress({ ...filing('SMITH JOHN A', ''), county: 'nowhere' }, { source: arcGisParcelSource(fixtureClient({})) });
+    assert.equal(result.lookup_status, 'error');
+    assert.equal(result.match_method, null);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// ArcGIS client
+// ---------------------------------------------------------------------------
+
+describe('createArcGisClient', () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => { globalThis.fetch = realFetch; });
+
+  const respond = (body: unknown, status = 200) => {
+    const urls: URL[] = [];
+    globalThis.fetch = (async (input: string | URL | Request) => {
+      urls.push(new URL(String(input)));
+      return new Response(JSON.stringify(body), { status });
+    }) as typeof fetch;
+    return urls;
+  };
+
+  test('sends the WHERE clause and returns the features', async () => {
+    const urls = respond(fixture('exact-single'));
+    const features = await createArcGisClient('https://arcgis.test/query').query("CO_NO=58 AND OWN_NAME='SMITH JOHN A'", 5);
+
+    assert.equal(features.length, 1);
+    assert.equal(features[0].attributes.OWN_NAME, 'SMITH JOHN A');
+    assert.equal(urls[0].searchParams.get('where'), "CO_NO=58 AND OWN_NAME='SMITH JOHN A'");
+    assert.equal(urls[0].searchParams.get('resultRecordCount'), '5');
+    assert.equal(urls[0].searchParams.get('f'), 'json');
+  });
+
+  test('throws on an ArcGIS error payload, which comes back as a 200', async () => {
+    respond(fixture('error'));
+    await assert.rejects(createArcGisClient('https://arcgis.test/query').query('1=1'), /Unable to complete operation/);
+  });
+
+  test('throws on an HTTP error', async () => {
+    respond({}, 500);
+    await assert.rejects(createArcGisClient('https://arcgis.test/query').query('1=1'), /HTTP 500/);
+  });
+});
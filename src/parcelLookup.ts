@@ -0,0 +1,534 @@
+/**
+ * PARCEL / ADDRESS LOOKUP
+ *
+ * Finds the property a filing is about by searching the Florida Statewide
+ * Cadastral parcel layer (ArcGIS) for the grantee's name, then picking the
+ * parcel whose legal description matches the filing's subdivision.
+ *
+ * This is the TypeScript version of the Code nodes in
+ * n8n-workflow/fl-parcel-lookup-nodes.js, with the same flow:
+ *
+ *   exact OWN_NAME query → 0 results → surname LIKE query → 0 → not_found
+ *                                                         → 1 → like_single
+ *                                                         → many → like_legal_description
+ *                        → 1 result  → exact_name
+ *                        → many      → legal_description
+ *
+ * Parcels come from a ParcelSource: the local parcel roll imported with
+ * `npm run import-parcels` (offline, full-text search), the live ArcGIS
+ * FeatureServer, or the local roll with ArcGIS as a fallback (the default).
+ * ArcGIS itself is reached through an ArcGisClient so the matching logic can
+ * be run against fixture responses without the network.
+ */
+
+import { parcelLookup as lookupConfig } from './config.js';
+import { getCountyAdapter } from './counties/index.js';
+import { initDatabase, closeDatabase, findParcelsByOwner, searchParcelsByOwner, type Filing, type ParcelRecord } from './database.js';
+import { detectSurname as parseSurname, NAME_PREFIXES } from './nameParser.js';
+import { parseParties } from './parties.js';
+import { log } from './logger.js';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Attributes of one parcel in the statewide cadastral layer */
+export interface ParcelAttributes {
+  PARCELNO?: string | null;
+  OWN_NAME?: string | null;
+  PHY_ADDR1?: string | null;
+  PHY_CITY?: string | null;
+  PHY_ZIPCD?: string | number | null;
+  S_LEGAL?: string | null;
+  JV?: number | null;       // Just (market) value
+  AV_NSD?: number | null;   // Assessed value, non-school district
+  JV_HMSTD?: number | null; // Just value of the homestead portion (> 0 = homesteaded)
+}
+
+export interface ParcelFeature {
+  attributes: ParcelAttributes;
+  /** Which source returned the parcel (set by the ParcelSource) */
+  source?: 'local' | 'arcgis';
+}
+
+/** Runs a WHERE clause against the parcel layer and returns the matching parcels */
+export interface ArcGisClient {
+  query(where: string, limit?: number): Promise<ParcelFeature[]>;
+}
+
+/** The two owner-name searches the lookup needs, whatever answers them */
+export interface ParcelSource {
+  /** Parcels in the county owned by exactly `ownerName` */
+  findByOwner(countyNumber: number, ownerName: string): Promise<ParcelFeature[]>;
+  /** Parcels whose owner name contains `surname` and, when `anyOf` isn't
+   *  empty, at least one of those name parts too */
+  findByOwnerLike(countyNumber: number, surname: string, anyOf: string[], limit: number): Promise<ParcelFeature[]>;
+}
+
+export type LookupStatus = 'matched' | 'no_legal_match' | 'no_match_found' | 'not_found' | 'error';
+
+export type MatchMethod =
+  | 'exact_name'             // Exact owner name, single parcel
+  | 'legal_description'      // Exact owner name, several parcels, picked by legal description
+  | 'like_single'            // Surname LIKE, single parcel
+  | 'like_legal_description' // Surname LIKE, several parcels, picked by owner + legal description
+  | 'failed'                 // Parcels found but none matched the legal description
+  | 'exhausted';             // No parcels found at all
+
+export interface ParcelLookupResult {
+  county: string;
+  document_number: string;
+  lookup_status: LookupStatus;
+  match_method: MatchMethod | null;
+
+  /** The grantee searched for: the first person, else the first business */
+  primary_grantee: string;
+  /** Every grantee except placeholders ("UNKNOWN TENANT") */
+  all_grantees: string[];
+  subdivision_name: string;
+  county_number: number | null;
+  /** Surname used for the LIKE retry (null when the exact query settled it) */
+  retrying_surname: string | null;
+
+  property_address: string | null;
+  property_city: string | null;
+  property_zip: string | null;
+  parcel_number: string | null;
+  owner_name_on_parcel: string | null;
+  parcel_legal: string | null;
+  just_value: number | null;
+  assessed_value: number | null;
+  /** True when the parcel carries a homestead exemption (owner-occupied) */
+  homestead: boolean | null;
+  /** Whether the parcel owner shares a name part with the grantee (null without a parcel) */
+  owner_matches_grantee: boolean | null;
+
+  /** Legal-description keywords matched by the chosen (or best) parcel */
+  match_score: number | null;
+  unique_score: number | null;
+  total_keywords: number | null;
+  /** Where the chosen parcel came from */
+  parcel_source: 'local' | 'arcgis' | null;
+  /** Parcels returned by the query that decided the outcome */
+  total_results: number;
+  /** LIKE results left after discarding parcels owned by someone else */
+  candidates_after_name_filter: number | null;
+
+  error: string | null;
+}
+
+export interface LookupOptions {
+  /** Defaults to defaultParcelSource() */
+  source?: ParcelSource;
+  /** Picks the surname for the LIKE retry (defaults to the name parser) */
+  detectSurname?: (name: string) => string | Promise<string>;
+}
+
+// ---------------------------------------------------------------------------
+// ArcGIS client
+// ---------------------------------------------------------------------------
+
+/** Client for the Florida Statewide Cadastral FeatureServer. Throws on HTTP
+ *  errors and on ArcGIS error payloads (which come back as 200s). */
+export function createArcGisClient(url: string = lookupConfig.arcgisUrl): ArcGisClient {
+  return {
+    async query(where: string, limit?: number): Promise<ParcelFeature[]> {
+      const params = new URLSearchParams({
+        where,
+        outFields: lookupConfig.outFields.join(','),
+        returnGeometry: 'false',
+        f: 'json',
+      });
+      if (limit) params.set('resultRecordCount', String(limit));
+
+      const response = await fetch(`${url}?${params}`, {
+        signal: AbortSignal.timeout(lookupConfig.requestTimeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`ArcGIS query failed: HTTP ${response.status}`);
+      }
+
+      const body = await response.json() as { features?: ParcelFeature[]; error?: { message?: string } };
+      if (body.error) {
+        throw new Error(`ArcGIS query failed: ${body.error.message ?? 'unknown error'}`);
+      }
+      return body.features ?? [];
+    },
+  };
+}
+
+/** ParcelSource backed by the ArcGIS FeatureServer */
+export function arcGisParcelSource(client: ArcGisClient = createArcGisClient()): ParcelSource {
+  const tag = (features: ParcelFeature[]) => features.map(f => ({ ...f, source: 'arcgis' as const }));
+  return {
+    async findByOwner(countyNumber, ownerName) {
+      return tag(await client.query(buildExactWhere(countyNumber, ownerName)));
+    },
+    async findByOwnerLike(countyNumber, surname, anyOf, limit) {
+      return tag(await client.query(buildLikeWhere(countyNumber, surname, anyOf), limit));
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Local parcel roll
+// ---------------------------------------------------------------------------
+
+function toFeature(record: ParcelRecord): ParcelFeature {
+  return {
+    attributes: {
+      PARCELNO: record.parcel_id,
+      OWN_NAME: record.own_name,
+      PHY_ADDR1: record.phy_addr1,
+      PHY_CITY: record.phy_city,
+      PHY_ZIPCD: record.phy_zipcd,
+      S_LEGAL: record.s_legal,
+      JV: record.jv,
+      AV_NSD: record.av_nsd,
+      JV_HMSTD: record.jv_hmstd,
+    },
+    source: 'local',
+  };
+}
+
+/** ParcelSource backed by the parcels table in SQLite. Returns nothing for a
+ *  county whose roll hasn't been imported. The LIKE search is a full-text
+ *  prefix match on owner name words ("SMITH" finds SMITH and SMITHERS). */
+export function localParcelSource(): ParcelSource {
+  const withDatabase = <T>(fn: () => T): T => {
+    initDatabase();
+    try {
+      return fn();
+    } finally {
+      closeDatabase();
+    }
+  };
+  return {
+    async findByOwner(countyNumber, ownerName) {
+      return withDatabase(() => findParcelsByOwner(countyNumber, ownerName).map(toFeature));
+    },
+    async findByOwnerLike(countyNumber, surname, anyOf, limit) {
+      return withDatabase(() => searchParcelsByOwner(countyNumber, surname, anyOf, limit).map(toFeature));
+    },
+  };
+}
+
+/** Ask `primary` first and `fallback` only when it finds nothing (or fails) */
+export function withFallback(primary: ParcelSource, fallback: ParcelSource): ParcelSource {
+  const attempt = async (first: () => Promise<ParcelFeature[]>, second: () => Promise<ParcelFeature[]>) => {
+    try {
+      const features = await first();
+      if (features.length > 0) return features;
+    } catch (error) {
+      log.warn(`Parcel source failed, trying fallback: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return second();
+  };
+  return {
+    findByOwner: (countyNumber, ownerName) => attempt(
+      () => primary.findByOwner(countyNumber, ownerName),
+      () => fallback.findByOwner(countyNumber, ownerName),
+    ),
+    findByOwnerLike: (countyNumber, surname, anyOf, limit) => attempt(
+      () => primary.findByOwnerLike(countyNumber, surname, anyOf, limit),
+      () => fallback.findByOwnerLike(countyNumber, surname, anyOf, limit),
+    ),
+  };
+}
+
+/** The local parcel roll, falling back to ArcGIS unless PARCEL_ARCGIS_FALLBACK=false */
+export function defaultParcelSource(): ParcelSource {
+  const local = localParcelSource();
+  return lookupConfig.arcgisFallback ? withFallback(local, arcGisParcelSource()) : local;
+}
+
+// ---------------------------------------------------------------------------
+// Query building ("Prep Query" / "Prep LIKE Retry")
+// ---------------------------------------------------------------------------
+
+/** Quote a value for an ArcGIS WHERE clause (O'BRIEN → 'O''BRIEN') */
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** "Lot: 7 Block: B RIDGEMOORE PHASE ONE" → "RIDGEMOORE PHASE ONE" */
+export function extractSubdivisionName(legalDescription: string): string {
+  return legalDescription
+    .replace(/^Lot:\s*\S+\s*/i, '')
+    .replace(/^Block:\s*\S+\s*/i, '')
+    .replace(/^TS:\s*/i, '')
+    .replace(/^REPLAT OF\s*/i, '')
+    .trim();
+}
+
+/** WHERE clause for an exact owner-name match */
+export function buildExactWhere(countyNumber: number, ownerName: string): string {
+  return `CO_NO=${countyNumber} AND OWN_NAME=${sqlString(ownerName)}`;
+}
+
+/** The name parts worth adding to a LIKE query besides the surname: not part
+ *  of the surname, not a prefix, not an initial, at least 3 characters */
+export function otherNameParts(name: string, surname: string): string[] {
+  const surnameWords = surname.toUpperCase().split(/\s+/);
+  return name.split(/\s+/).filter(Boolean)
+    .filter(p => !surnameWords.includes(p.toUpperCase()))
+    .filter(p => !NAME_PREFIXES.includes(p.toUpperCase()))
+    .filter(p => p.length >= 3)
+    .filter(p => !/^[A-Z]\.?$/i.test(p));
+}
+
+/** WHERE clause for the LIKE retry: the surname, plus any one of `anyOf` */
+export function buildLikeWhere(countyNumber: number, surname: string, anyOf: string[]): string {
+  const like = (part: string) => `OWN_NAME LIKE ${sqlString(`%${part.toUpperCase()}%`)}`;
+  const where = `CO_NO=${countyNumber} AND ${like(surname)}`;
+  return anyOf.length > 0 ? `${where} AND (${anyOf.map(like).join(' OR ')})` : where;
+}
+
+
+// ---------------------------------------------------------------------------
+// Legal description scoring ("Match Legal Description" / "Match Legal LIKE")
+// ---------------------------------------------------------------------------
+
+/** Subdivision words so common they can't tell two subdivisions apart on their own */
+export const STOP_WORDS = new Set([
+  'PHASE', 'UNIT', 'SECTION', 'ADDITION', 'REPLAT',
+  'ESTATES', 'VILLAGE', 'LAKES', 'PARK', 'WOODS',
+  'GARDENS', 'MANOR', 'TERRACE', 'HEIGHTS', 'HILLS',
+  'ACRES', 'CONDO', 'CONDOMINIUM', 'TOWNHOMES', 'VILLAS',
+  'NORTH', 'SOUTH', 'EAST', 'WEST', 'FIRST', 'SECOND',
+  'TWO', 'THREE', 'FOUR', 'FIVE', 'ONE',
+]);
+
+export interface LegalMatch {
+  /** The best parcel, or null when none cleared the threshold */
+  feature: ParcelFeature | null;
+  score: number;
+  unique_score: number;
+  total_keywords: number;
+  unique_keywords: number;
+}
+
+/** Words of at least 4 characters that aren't plain numbers */
+function keywordsOf(text: string, separator: RegExp): string[] {
+  return text.toUpperCase().split(separator).filter(w => w.length >= 4 && !/^\d+$/.test(w));
+}
+
+/** Score each parcel's S_LEGAL against the subdivision name and return the best.
+ *  Keywords match whole words only, so VISTA doesn't match VISTANA. A match
+ *  needs at least one distinctive (non stop-word) keyword and two keywords in
+ *  total, however many the name has — the n8n threshold, so a subdivision
+ *  with a single keyword never matches. */
+export function matchLegalDescription(features: ParcelFeature[], subdivisionName: string): LegalMatch {
+  const allKeywords = keywordsOf(subdivisionName, /\s+/);
+  const uniqueKeywords = allKeywords.filter(w => !STOP_WORDS.has(w));
+  const commonKeywords = allKeywords.filter(w => STOP_WORDS.has(w));
+
+  let best: ParcelFeature | null = null;
+  let bestScore = 0;
+  let bestUniqueScore = 0;
+
+  for (const feature of features) {
+    const legalWords = new Set(keywordsOf(feature.attributes.S_LEGAL ?? '', /[\s\-/,.()+]+/));
+    const uniqueScore = uniqueKeywords.filter(k => legalWords.has(k)).length;
+    const totalScore = uniqueScore + commonKeywords.filter(k => legalWords.has(k)).length;
+
+    // Prefer candidates with more distinctive keyword matches on a tie
+    if (totalScore > bestScore || (totalScore === bestScore && uniqueScore > bestUniqueScore)) {
+      bestScore = totalScore;
+      bestUniqueScore = uniqueScore;
+      best = feature;
+    }
+  }
+
+  const minRequired = Math.max(2, Math.ceil(allKeywords.length * 0.4));
+  const isGoodMatch = best !== null && bestUniqueScore >= 1 && bestScore >= Math.min(minRequired, 2);
+
+  return {
+    feature: isGoodMatch ? best : null,
+    score: bestScore,
+    unique_score: bestUniqueScore,
+    total_keywords: allKeywords.length,
+    unique_keywords: uniqueKeywords.length,
+  };
+}
+
+/** True when the parcel owner shares a whole name part with the grantee (or is
+ *  the retry surname) — weeds out other people who merely contain the surname */
+export function ownerNameMatches(ownerName: string, granteeName: string, surname: string = ''): boolean {
+  const ownerParts = new Set(ownerName.toUpperCase().split(/[\s,]+/).filter(w => w.length >= 2));
+  const granteeParts = granteeName.toUpperCase().split(/\s+/).filter(w => w.length >= 2);
+
+  if (granteeParts.some(part => ownerParts.has(part))) return true;
+  return surname !== '' && ownerParts.has(surname.toUpperCase());
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+type ParcelFields = Pick<ParcelLookupResult,
+  'property_address' | 'property_city' | 'property_zip' | 'parcel_number' | 'owner_name_on_parcel' | 'parcel_legal' |
+  'just_value' | 'assessed_value' | 'homestead'>;
+
+/** ArcGIS returns numbers; NAL imports store them as text until parsed */
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function parcelFields(feature: ParcelFeature): ParcelFields & Pick<ParcelLookupResult, 'parcel_source'> {
+  const attrs = feature.attributes;
+  return {
+    parcel_source: feature.source ?? null,
+    property_address: attrs.PHY_ADDR1?.trim() ?? '',
+    property_city: attrs.PHY_CITY?.trim() ?? '',
+    property_zip: attrs.PHY_ZIPCD != null ? String(attrs.PHY_ZIPCD) : '',
+    parcel_number: attrs.PARCELNO ?? '',
+    owner_name_on_parcel: attrs.OWN_NAME ?? '',
+    parcel_legal: attrs.S_LEGAL ?? '',
+    just_value: toNumber(attrs.JV),
+    assessed_value: toNumber(attrs.AV_NSD),
+    homestead: attrs.JV_HMSTD === undefined ? null : (toNumber(attrs.JV_HMSTD) ?? 0) > 0,
+  };
+}
+
+const NO_PARCEL: ParcelFields = {
+  property_address: null,
+  property_city: null,
+  property_zip: null,
+  parcel_number: null,
+  owner_name_on_parcel: null,
+  parcel_legal: null,
+  just_value: null,
+  assessed_value: null,
+  homestead: null,
+};
+
+/** Find the property address for a filing */
+export async function lookupAddress(
+  filing: Pick<Filing, 'county' | 'document_number' | 'grantee_name' | 'legal_description'>,
+  options: LookupOptions = {},
+): Promise<ParcelLookupResult> {
+  const result = await findParcel(filing, options);
+  return {
+    ...result,
+    owner_matches_grantee: result.owner_name_on_parcel
+      ? ownerNameMatches(result.owner_name_on_parcel, result.primary_grantee, result.retrying_surname ?? '')
+      : null,
+  };
+}
+
+async function findParcel(
+  filing: Pick<Filing, 'county' | 'document_number' | 'grantee_name' | 'legal_description'>,
+  options: LookupOptions,
+): Promise<ParcelLookupResult> {
+  const source = options.source ?? defaultParcelSource();
+  const detectSurname = options.detectSurname ?? parseSurname;
+
+  // Search for the first real person on the filing; co-owners are kept in
+  // all_grantees. Businesses are only searched when there's no person at all.
+  const grantees = parseParties(filing.grantee_name ?? '', 'grantee').filter(p => p.kind !== 'placeholder');
+  const allGrantees = grantees.map(p => p.name);
+  const primaryGrantee = (grantees.find(p => p.kind === 'person') ?? grantees[0])?.name ?? '';
+  const subdivisionName = extractSubdivisionName(filing.legal_description ?? '');
+
+  const result: ParcelLookupResult = {
+    county: filing.county,
+    document_number: filing.document_number,
+    lookup_status: 'not_found',
+    match_method: null,
+    primary_grantee: primaryGrantee,
+    all_grantees: allGrantees,
+    subdivision_name: subdivisionName,
+    county_number: null,
+    retrying_surname: null,
+    ...NO_PARCEL,
+    owner_matches_grantee: null,
+    parcel_source: null,
+    match_score: null,
+    unique_score: null,
+    total_keywords: null,
+    total_results: 0,
+    candidates_after_name_filter: null,
+    error: null,
+  };
+
+  let countyNumber: number;
+  try {
+    countyNumber = getCountyAdapter(filing.county).countyNumber;
+  } catch (error) {
+    return { ...result, lookup_status: 'error', error: error instanceof Error ? error.message : String(error) };
+  }
+  result.county_number = countyNumber;
+
+  if (!primaryGrantee) {
+    return { ...result, lookup_status: 'error', error: 'Filing has no grantee name to search for' };
+  }
+
+  // A source error counts as "no parcels" so the flow carries on, the way the
+  // Normalize Results nodes did — but the message is kept on the result
+  const query = async (search: () => Promise<ParcelFeature[]>): Promise<ParcelFeature[]> => {
+    try {
+      return await search();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn(`Parcel query failed for ${filing.document_number}: ${message}`);
+      result.error = message;
+      return [];
+    }
+  };
+
+  // --- Exact owner name ---
+  const exact = await query(() => source.findByOwner(countyNumber, primaryGrantee));
+
+  if (exact.length === 1) {
+    return { ...result, ...parcelFields(exact[0]), total_results: 1, lookup_status: 'matched', match_method: 'exact_name' };
+  }
+
+  if (exact.length > 1) {
+    const match = matchLegalDescription(exact, subdivisionName);
+    const scores = { match_score: match.score, unique_score: match.unique_score, total_keywords: match.total_keywords, total_results: exact.length };
+    if (match.feature) {
+      return { ...result, ...parcelFields(match.feature), ...scores, lookup_status: 'matched', match_method: 'legal_description' };
+    }
+    return { ...result, ...scores, lookup_status: 'no_legal_match', match_method: 'failed' };
+  }
+
+  // --- Surname LIKE retry ---
+  const surname = ((await detectSurname(primaryGrantee)) || '').trim().toUpperCase()
+    || primaryGrantee.split(/\s+/)[0].toUpperCase();
+  result.retrying_surname = surname;
+
+  // Surname plus another name part first; the surname alone if that finds nothing
+  const otherParts = otherNameParts(primaryGrantee, surname);
+  const limit = lookupConfig.likeResultLimit;
+  let candidates = otherParts.length > 0
+    ? await query(() => source.findByOwnerLike(countyNumber, surname, otherParts, limit))
+    : [];
+  if (candidates.length === 0) {
+    candidates = await query(() => source.findByOwnerLike(countyNumber, surname, [], limit));
+  }
+
+  if (candidates.length === 0) {
+    return { ...result, lookup_status: 'not_found', match_method: 'exhausted' };
+  }
+
+  if (candidates.length === 1) {
+    return { ...result, ...parcelFields(candidates[0]), total_results: 1, lookup_status: 'matched', match_method: 'like_single' };
+  }
+
+  const owned = candidates.filter(f => ownerNameMatches(f.attributes.OWN_NAME ?? '', primaryGrantee, surname));
+  const match = matchLegalDescription(owned, subdivisionName);
+  const scores = {
+    match_score: match.score,
+    unique_score: match.unique_score,
+    total_keywords: match.total_keywords,
+    total_results: candidates.length,
+    candidates_after_name_filter: owned.length,
+  };
+  if (match.feature) {
+    return { ...result, ...parcelFields(match.feature), ...scores, lookup_status: 'matched', match_method: 'like_legal_description' };
+  }
+  return { ...result, ...scores, lookup_status: 'no_match_found', match_method: 'failed' };
+}
@@ -0,0 +1,184 @@
+/**
+ * PARCEL ROLL FILES
+ *
+ * Reads a county parcel roll into ParcelRecords for the local parcels table.
+ * Two formats are understood:
+ *
+ *   - The Florida DOR NAL file (name-address-legal, CSV with a header row:
+ *     CO_NO, PARCEL_ID, OWN_NAME, PHY_ADDR1, PHY_CITY, PHY_ZIPCD, S_LEGAL,
+ *     JV, AV_NSD, JV_HMSTD, ...)
+ *   - GeoJSON exported from the statewide cadastral layer (.geojson as one
+ *     FeatureCollection, or .geojsonl / .ndjson with one feature per line).
+ *     Convert a shapefile first: ogr2ogr -f GeoJSONSeq parcels.geojsonl parcels.shp
+ *
+ * NAL and line-delimited files are streamed, so a full county roll doesn't
+ * have to fit in memory.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import type { ParcelRecord } from './database.js';
+
+/** Parcel roll fields, keyed by the column/property name used in the file */
+type RawParcel = Record<string, unknown>;
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/** Split one CSV record into fields ("" escapes a quote inside a quoted field) */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/** True while a record still has an unclosed quoted field (it continues on the next line) */
+function hasOpenQuote(record: string): boolean {
+  return ((record.match(/"/g)?.length ?? 0) % 2) === 1;
+}
+
+async function* readCsv(filePath: string): AsyncGenerator<RawParcel> {
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+
+  let header: string[] | null = null;
+  let pending = '';
+  for await (const line of lines) {
+    pending = pending ? `${pending}\n${line}` : line;
+    if (hasOpenQuote(pending)) continue;
+
+    const fields = parseCsvLine(pending);
+    pending = '';
+    if (!header) {
+      header = fields.map(f => f.trim().replace(/^\uFEFF/, '').toUpperCase());
+      continue;
+    }
+    if (fields.length === 1 && fields[0].trim() === '') continue;
+
+    const row: RawParcel = {};
+    header.forEach((name, i) => { row[name] = fields[i]; });
+    yield row;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GeoJSON
+// ---------------------------------------------------------------------------
+
+async function* readGeoJson(filePath: string): AsyncGenerator<RawParcel> {
+  const collection = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+  if (!Array.isArray(collection.features)) {
+    throw new Error(`${filePath} is not a GeoJSON FeatureCollection`);
+  }
+  for (const feature of collection.features) {
+    yield feature.properties ?? {};
+  }
+}
+
+async function* readGeoJsonLines(filePath: string): AsyncGenerator<RawParcel> {
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+  for await (const line of lines) {
+    // GeoJSONSeq may prefix each feature with the RS control character
+    const text = line.replace(/^\x1e/, '').trim();
+    if (!text) continue;
+    yield JSON.parse(text).properties ?? {};
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Records
+// ---------------------------------------------------------------------------
+
+function text(raw: RawParcel, ...keys: string[]): string {
+  for (const key of keys) {
+    const value = raw[key] ?? raw[key.toLowerCase()];
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return String(value).replace(/\s+/g, ' ').trim();
+    }
+  }
+  return '';
+}
+
+function number(raw: RawParcel, key: string): number | null {
+  const value = text(raw, key);
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Map a NAL row / GeoJSON properties object to a ParcelRecord. Returns null
+ *  for rows without a parcel id or county. */
+export function toParcelRecord(raw: RawParcel, defaultCountyNumber?: number): ParcelRecord | null {
+  const parcelId = text(raw, 'PARCEL_ID', 'PARCELNO', 'PARCEL_NO');
+  const countyNumber = Number(text(raw, 'CO_NO')) || defaultCountyNumber;
+  if (!parcelId || !countyNumber) return null;
+
+  return {
+    co_no: countyNumber,
+    parcel_id: parcelId,
+    own_name: text(raw, 'OWN_NAME').toUpperCase(),
+    phy_addr1: text(raw, 'PHY_ADDR1'),
+    phy_city: text(raw, 'PHY_CITY'),
+    // NAL stores zips as numbers; keep the leading digits only
+    phy_zipcd: text(raw, 'PHY_ZIPCD').replace(/\.0+$/, ''),
+    s_legal: text(raw, 'S_LEGAL'),
+    jv: number(raw, 'JV'),
+    av_nsd: number(raw, 'AV_NSD'),
+    jv_hmstd: number(raw, 'JV_HMSTD'),
+  };
+}
+
+/** Stream the ParcelRecords in a roll file. The format is picked by extension
+ *  (.csv/.txt → NAL, .geojson/.json → FeatureCollection, .geojsonl/.ndjson →
+ *  one feature per line). `defaultCountyNumber` fills in rows without CO_NO;
+ *  `skipped` counts rows that couldn't be used. */
+export async function* readParcelRoll(
+  filePath: string,
+  defaultCountyNumber?: number,
+  skipped: { count: number } = { count: 0 },
+): AsyncGenerator<ParcelRecord> {
+  const extension = path.extname(filePath).toLowerCase();
+  let rows: AsyncGenerator<RawParcel>;
+  if (extension === '.csv' || extension === '.txt') {
+    rows = readCsv(filePath);
+  } else if (extension === '.geojson' || extension === '.json') {
+    rows = readGeoJson(filePath);
+  } else if (extension === '.geojsonl' || extension === '.geojsons' || extension === '.ndjson') {
+    rows = readGeoJsonLines(filePath);
+  } else {
+    throw new Error(`Unsupported parcel roll format "${extension}" (expected .csv, .geojson or .geojsonl)`);
+  }
+
+  for await (const raw of rows) {
+    const record = toParcelRecord(raw, defaultCountyNumber);
+    if (record) {
+      yield record;
+    } else {
+      skipped.count++;
+    }
+  }
+}
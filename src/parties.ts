@@ -0,0 +1,88 @@
+/**
+ * FILING PARTIES
+ *
+ * Splits a filing's newline-joined grantor and grantee names into structured
+ * parties and tells real people apart from businesses and from the
+ * placeholder defendants foreclosure complaints list ("UNKNOWN SPOUSE OF
+ * JOHN SMITH", "UNKNOWN TENANT #1").
+ *
+ * Placeholders are dropped. Every remaining person grantee is a separate
+ * contact target. A filing whose grantees are all businesses, trusts or
+ * estates is flagged entity_only, since there's nobody to skip-trace and it
+ * follows a different workflow.
+ */
+
+import { parseName, splitPersonName } from './nameParser.js';
+import type { Filing } from './database.js';
+
+export type PartyRole = 'grantor' | 'grantee';
+
+/** person — a human being; entity — business, trust, estate or government;
+ *  placeholder — an unnamed defendant ("UNKNOWN TENANT") */
+export type PartyKind = 'person' | 'entity' | 'placeholder';
+
+export interface Party {
+  name: string;
+  role: PartyRole;
+  kind: PartyKind;
+  /** Split name, for people only */
+  first_name?: string;
+  last_name?: string;
+}
+
+/** Defendants named by role rather than by name */
+const PLACEHOLDER_PATTERNS = [
+  /^UNKNOWN\b/,
+  /\bUNKNOWN\s+(?:SPOUSE|TENANTS?|HEIRS|PARTIES|PARTY|OCCUPANTS?|CLAIMANTS?|BENEFICIARIES)\b/,
+  /\b(?:JOHN|JANE)\s+DOE\b/,
+  /^(?:ALL\s+)?(?:OTHER\s+)?(?:TENANTS?|OCCUPANTS?)(?:\s*(?:#|NO\.?)?\s*\d+)?$/,
+  /\bPART(?:Y|IES)\s+IN\s+POSSESSION\b/,
+  /^ANY\s+AND\s+ALL\b/,
+  /\bUNNAMED\b/,
+];
+
+/** One name per line, as printed on the result card */
+export function splitNames(names: string): string[] {
+  return (names ?? '').split('\n').map(n => n.replace(/\s+/g, ' ').trim()).filter(Boolean);
+}
+
+export function classifyParty(name: string): PartyKind {
+  const upper = name.toUpperCase();
+  if (PLACEHOLDER_PATTERNS.some(pattern => pattern.test(upper))) return 'placeholder';
+  return parseName(upper).kind === 'person' ? 'person' : 'entity';
+}
+
+/** Parse one newline-joined name field. Placeholders are included — callers
+ *  that only want real parties use parseFilingParties. */
+export function parseParties(names: string, role: PartyRole): Party[] {
+  return splitNames(names).map(name => {
+    const kind = classifyParty(name);
+    const split = kind === 'person' ? splitPersonName(name) : null;
+    return split ? { name, role, kind, ...split } : { name, role, kind };
+  });
+}
+
+/** The real (non-placeholder) grantors and grantees of a filing */
+export function parseFilingParties(filing: Pick<Filing, 'grantor_name' | 'grantee_name'>): Party[] {
+  return [
+    ...parseParties(filing.grantor_name, 'grantor'),
+    ...parseParties(filing.grantee_name, 'grantee'),
+  ].filter(party => party.kind !== 'placeholder');
+}
+
+/** True when the filing has real grantees and none of them is a person */
+export function isEntityOnly(parties: Party[]): boolean {
+  const grantees = parties.filter(p => p.role === 'grantee' && p.kind !== 'placeholder');
+  return grantees.length > 0 && grantees.every(p => p.kind === 'entity');
+}
+
+/** The people worth contacting about a filing: every person grantee */
+export function contactTargets(parties: Party[]): Party[] {
+  return parties.filter(p => p.role === 'grantee' && p.kind === 'person');
+}
+
+/** Stamp parties and the entity_only flag onto a scraped filing */
+export function withParties(filing: Filing): Filing {
+  const parties = parseFilingParties(filing);
+  return { ...filing, parties, entity_only: isEntityOnly(parties) };
+}
@@ -0,0 +1,306 @@
+/**
+ * SCHEDULER
+ *
+ * Queues scrapes on cron schedules read in SCHEDULE_TIMEZONE (America/New_York
+ * by default), so the service runs without n8n's Schedule Trigger /
+ * "Is Weekday?" / "8am-6pm ET?" nodes. Runs only happen on business days:
+ * weekends, Florida court/county holidays (holidayRules.ts) and
+ * SCHEDULE_EXTRA_CLOSURES are skipped whatever the cron says.
+ *
+ * Each run queues a scrape of that day's recordings (see jobQueue.ts), plus
+ * the SCHEDULE_RESCAN_BUSINESS_DAYS before it for filings indexed late. A run
+ * that comes due while an earlier scrape is still queued or running is
+ * skipped rather than piling up. SCHEDULE_CASE_TRACKING_CRONS runs queue a
+ * case-tracking job instead (caseTracking.ts), unless one is already waiting.
+ *
+ * Every run handled is recorded in schedule_runs. On startup, runs missed
+ * while the service was down are caught up per SCHEDULE_CATCH_UP: "backfill"
+ * queues one scrape covering the missed recording dates (at most
+ * SCHEDULE_CATCH_UP_MAX_DAYS back), "skip" just logs them.
+ *
+ * Started by the HTTP server when SCHEDULE_ENABLED=true (or `npm run schedule`);
+ * the next planned runs are listed on GET /health.
+ */
+
+import {
+  initDatabase, closeDatabase, getJobCounts, getJobs, recordScheduleRun, getLastScheduleRun,
+  type ScheduleOutcome, type ScheduleRun,
+} from './database.js';
+import { enqueueScrape, enqueueCaseTracking } from './jobQueue.js';
+import { parseCron, nextCronTime, zonedTime, isoDay, type CronExpression } from './cron.js';
+import { isBusinessDay } from './holidays.js';
+import { schedule as scheduleConfig } from './config.js';
+import { normalizeDate } from './dates.js';
+import { log } from './logger.js';
+
+/** What a scheduled run queues */
+export type ScheduledTask = 'scrape' | 'track_cases';
+
+export interface PlannedRun {
+  /** ISO instant */
+  at: string;
+  /** The same instant as wall-clock time in the schedule's zone */
+  local: string;
+  cron: string;
+  task: ScheduledTask;
+}
+
+export interface ScheduleStatus {
+  enabled: boolean;
+  time_zone: string;
+  crons: string[];
+  case_tracking_crons: string[];
+  catch_up: string;
+  next_runs: PlannedRun[];
+  last_run: ScheduleRun | null;
+}
+
+interface ScheduledCron {
+  cron: CronExpression;
+  task: ScheduledTask;
+}
+
+interface DueRun extends ScheduledCron {
+  at: Date;
+}
+
+let crons: ScheduledCron[] | null = null;
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Long timeouts are re-armed in steps so clock changes can't push a run far off
+const MAX_SLEEP_MS = 60 * 60 * 1000;
+
+function getCrons(): ScheduledCron[] {
+  crons ??= [
+    ...scheduleConfig.crons.map(source => ({ cron: parseCron(source), task: 'scrape' as const })),
+    ...scheduleConfig.caseTrackingCrons.map(source => ({ cron: parseCron(source), task: 'track_cases' as const })),
+  ];
+  return crons;
+}
+
+function localLabel(date: Date): string {
+  const t = zonedTime(date, scheduleConfig.timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${isoDay(t)} ${pad(t.hour)}:${pad(t.minute)}`;
+}
+
+/** The recording date a run scrapes: its day in the schedule's zone, as M/D/YYYY */
+function recordingDate(date: Date): string {
+  return normalizeDate(isoDay(zonedTime(date, scheduleConfig.timeZone)));
+}
+
+/** The next run after `after` across every cron, on a business day */
+function nextRun(after: Date): DueRun | null {
+  let next: DueRun | null = null;
+  for (const { cron, task } of getCrons()) {
+    const at = nextCronTime(cron, after, scheduleConfig.timeZone, isBusinessDay);
+    if (at && (!next || at < next.at)) next = { at, cron, task };
+  }
+  return next;
+}
+
+/** The next `count` planned runs */
+export function nextRuns(count: number, after: Date = new Date()): PlannedRun[] {
+  const runs: PlannedRun[] = [];
+  let cursor = after;
+  while (runs.length < count) {
+    const next = nextRun(cursor);
+    if (!next) break;
+    runs.push({ at: next.at.toISOString(), local: localLabel(next.at), cron: next.cron.source, task: next.task });
+    cursor = next.at;
+  }
+  return runs;
+}
+
+/** For GET /health */
+export function getScheduleStatus(): ScheduleStatus {
+  initDatabase();
+  let lastRun: ScheduleRun | null;
+  try {
+    lastRun = getLastScheduleRun();
+  } finally {
+    closeDatabase();
+  }
+
+  return {
+    enabled: running,
+    time_zone: scheduleConfig.timeZone,
+    crons: scheduleConfig.crons,
+    case_tracking_crons: scheduleConfig.caseTrackingCrons,
+    catch_up: scheduleConfig.catchUp,
+    next_runs: running ? nextRuns(5) : [],
+    last_run: lastRun,
+  };
+}
+
+function record(plannedAt: Date, cron: string, outcome: ScheduleOutcome, jobId: string | null): void {
+  initDatabase();
+  try {
+    recordScheduleRun({ planned_at: plannedAt.toISOString(), cron, outcome, job_id: jobId });
+  } finally {
+    closeDatabase();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Catch-up
+// ---------------------------------------------------------------------------
+
+/** Deal with the runs that came due since the last one handled, per SCHEDULE_CATCH_UP */
+function catchUp(now: Date): void {
+  initDatabase();
+  let last: ScheduleRun | null;
+  try {
+    last = getLastScheduleRun();
+  } finally {
+    closeDatabase();
+  }
+  // First start: nothing was scheduled before, so nothing was missed
+  if (!last) return;
+
+  const oldest = new Date(now.getTime() - scheduleConfig.catchUpMaxDays * 24 * 60 * 60 * 1000);
+  let cursor = new Date(Math.max(new Date(last.planned_at).getTime(), oldest.getTime()));
+  const missed: DueRun[] = [];
+  for (let next = nextRun(cursor); next && next.at <= now; next = nextRun(cursor)) {
+    missed.push(next);
+    cursor = next.at;
+  }
+  if (missed.length === 0) return;
+
+  const first = missed[0];
+  const latest = missed[missed.length - 1];
+  log.warn(`${missed.length} scheduled run(s) missed between ${localLabel(first.at)} and ${localLabel(latest.at)} (${scheduleConfig.timeZone})`);
+
+  if (scheduleConfig.catchUp === 'skip') {
+    record(latest.at, latest.cron.source, 'missed', null);
+    return;
+  }
+
+  let jobId: string | null = null;
+  const firstScrape = missed.find(run => run.task === 'scrape');
+  if (firstScrape) {
+    try {
+      const job = enqueueScrape({
+        startDate: recordingDate(firstScrape.at),
+        endDate: recordingDate(now),
+        rescanDays: scheduleConfig.rescanBusinessDays,
+      });
+      log.info(`Catching up with scrape job ${job.job_id} for ${recordingDate(firstScrape.at)} – ${recordingDate(now)}`);
+      jobId = job.job_id;
+    } catch (error) {
+      log.error(`Catch-up scrape could not be queued: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  // One tracking run covers them all — it re-searches CASE_TRACKING_LOOKBACK_DAYS
+  if (missed.some(run => run.task === 'track_cases')) {
+    try {
+      const job = enqueueCaseTracking();
+      log.info(`Catching up with case tracking job ${job.job_id}`);
+      jobId ??= job.job_id;
+    } catch (error) {
+      log.error(`Catch-up case tracking could not be queued: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  record(latest.at, latest.cron.source, jobId ? 'caught_up' : 'missed', jobId);
+}
+
+// ---------------------------------------------------------------------------
+// Timer
+// ---------------------------------------------------------------------------
+
+/** Queue a case-tracking job for a run that's due now */
+function fireCaseTracking(plannedAt: Date, cron: CronExpression): void {
+  initDatabase();
+  let waiting: boolean;
+  try {
+    const [last] = getJobs({ kind: 'track_cases', limit: 1 });
+    waiting = last?.status === 'queued' || last?.status === 'running';
+  } finally {
+    closeDatabase();
+  }
+
+  if (waiting) {
+    log.info(`Scheduled case tracking ${localLabel(plannedAt)} skipped — the last one is still queued or running`);
+    record(plannedAt, cron.source, 'skipped_busy', null);
+    return;
+  }
+
+  try {
+    const job = enqueueCaseTracking();
+    log.info(`Scheduled case tracking ${localLabel(plannedAt)} queued job ${job.job_id}`);
+    record(plannedAt, cron.source, 'queued', job.job_id);
+  } catch (error) {
+    log.error(`Scheduled case tracking ${localLabel(plannedAt)} could not be queued: ${error instanceof Error ? error.message : String(error)}`);
+    record(plannedAt, cron.source, 'missed', null);
+  }
+}
+
+/** Queue the scrape for a run that's due now */
+function fire(plannedAt: Date, cron: CronExpression): void {
+  initDatabase();
+  let busy: boolean;
+  try {
+    const jobs = getJobCounts();
+    busy = jobs.queued + jobs.running > 0;
+  } finally {
+    closeDatabase();
+  }
+
+  if (busy) {
+    log.info(`Scheduled run ${localLabel(plannedAt)} skipped — a scrape is still queued or running`);
+    record(plannedAt, cron.source, 'skipped_busy', null);
+    return;
+  }
+
+  try {
+    const job = enqueueScrape({ startDate: recordingDate(plannedAt), rescanDays: scheduleConfig.rescanBusinessDays });
+    log.info(`Scheduled run ${localLabel(plannedAt)} queued scrape job ${job.job_id}`);
+    record(plannedAt, cron.source, 'queued', job.job_id);
+  } catch (error) {
+    log.error(`Scheduled run ${localLabel(plannedAt)} could not be queued: ${error instanceof Error ? error.message : String(error)}`);
+    record(plannedAt, cron.source, 'missed', null);
+  }
+}
+
+/** Sleep until the next run, fire it, repeat */
+function arm(after: Date): void {
+  const next = nextRun(after);
+  if (!next) {
+    log.warn('No scheduled runs in the next year — scheduler idle');
+    return;
+  }
+
+  const waitMs = next.at.getTime() - Date.now();
+  if (waitMs > MAX_SLEEP_MS) {
+    timer = setTimeout(() => arm(after), MAX_SLEEP_MS);
+    return;
+  }
+  timer = setTimeout(() => {
+    if (next.task === 'track_cases') fireCaseTracking(next.at, next.cron);
+    else fire(next.at, next.cron);
+    arm(next.at);
+  }, Math.max(0, waitMs));
+}
+
+/** Start queueing scrapes on the schedule. Throws on a bad cron expression,
+ *  time zone or catch-up policy, so a misconfiguration stops the server at startup. */
+export function startScheduler(): void {
+  if (running) return;
+  getCrons();
+  if (scheduleConfig.catchUp !== 'backfill' && scheduleConfig.catchUp !== 'skip') {
+    throw new Error(`SCHEDULE_CATCH_UP must be "backfill" or "skip", got "${scheduleConfig.catchUp}"`);
+  }
+  zonedTime(new Date(), scheduleConfig.timeZone); // Throws on an unknown zone
+
+  running = true;
+  const now = new Date();
+  catchUp(now);
+  arm(now);
+
+  const [next] = nextRuns(1, now);
+  const tracking = scheduleConfig.caseTrackingCrons.length > 0
+    ? `, case tracking ${scheduleConfig.caseTrackingCrons.join('; ')}`
+    : '';
+  log.info(`Scheduler started (${scheduleConfig.crons.join('; ')}${tracking} in ${scheduleConfig.timeZone}); next run ${next ? next.local : 'none'}`);
+}
@@ -0,0 +1,45 @@
+/**
+ * RESCORING SCRIPT
+ *
+ * Re-runs the lead scorer over every stored filing — after changing a weight
+ * in leadScoringRules.ts, or for filings stored before scoring existed.
+ * Filings that have been through POST /lookup-address are scored with their
+ * parcel data; new filings are scored (without it) during each scrape.
+ *
+ * Usage: npm run score-leads
+ */
+
+import { initDatabase, closeDatabase, getFilingsToScore, saveLeadScore } from './database.js';
+import { scoreLead } from './leadScoring.js';
+import { log } from './logger.js';
+
+function main(): void {
+  initDatabase();
+  try {
+    const filings = getFilingsToScore();
+    log.info(`${filings.length} filing(s) to score`);
+
+    let withLookup = 0;
+    let total = 0;
+    for (const filing of filings) {
+      const score = scoreLead(filing, filing.address_lookup);
+      saveLeadScore(filing, score);
+      if (filing.address_lookup) withLookup++;
+      total += score.lead_score;
+    }
+
+    if (filings.length > 0) {
+      log.info(`  ${withLookup} scored with parcel data, average score ${Math.round(total / filings.length)}`);
+    }
+    log.success(`Scored ${filings.length} filing(s)`);
+  } finally {
+    closeDatabase();
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  log.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
@@ -1,453 +1,323 @@
-import { chromium, type Browser, type Page } from 'playwright';
-import { execSync } from 'child_process';
-import path from 'path';
-import { scraper as scraperConfig, paths } from './config.js';
+/**
+ * SCRAPE ORCHESTRATOR
+ *
+ * Runs one scrape against a county portal: resolves the date windows and
+ * document types, launches the browser, then drives the county's adapter
+ * (navigate → accept disclaimer → search → parse results) once per window,
+ * optionally opening each new filing's detail page and archiving its
+ * recorded document afterwards.
+ * The portal-specific clicking lives in counties/.
+ */
+
+import type { Page } from 'playwright';
+import { launchBrowser, closeBrowser, errorScreenshot, delay } from './browser.js';
+import { scraper as scraperConfig, type DocumentTypeOption } from './config.js';
 import { log } from './logger.js';
-import { solveCaptcha, getCaptchaInjectionScript } from './captcha.js';
+import { parseDate, formatSiteDate, toIsoDate, today, splitDateRange, describeRange, type DateWindow } from './dates.js';
+import { businessDaysBefore } from './holidays.js';
+import { getCountyAdapter, type CountyAdapter, type SearchRequest, type ResultsScrape } from './counties/index.js';
+import { archiveDocument } from './documentArchive.js';
+import { withParties } from './parties.js';
+import { withClassification } from './classification.js';
+import { withLeadScore } from './leadScoring.js';
+import { withCaseStatus } from './caseTracking.js';
 import type { Filing } from './database.js';
 
+export { launchBrowser, closeBrowser } from './browser.js';
+
 // ---------------------------------------------------------------------------
-// Browser management
+// Main scrape function — orchestrates the full flow
 // ---------------------------------------------------------------------------
 
-let browser: Browser | null = null;
-
-/** Kill any orphaned chromium processes and clean up temp dirs from previous
- *  failed runs. This is critical on resource-constrained containers (Railway)
- *  where zombie processes cause EAGAIN / pthread_create failures. */
-function killOrphanedChromium(): void {
-  const commands = [
-    'pkill -f chrome-headless-shell 2>/dev/null || true',
-    'pkill -f chromium 2>/dev/null || true',
-    'rm -rf /tmp/playwright_* 2>/dev/null || true',
-  ];
-  for (const cmd of commands) {
-    try {
-      execSync(cmd, { stdio: 'ignore' });
-    } catch {
-      // Safe to ignore — process may not exist or command unavailable
-    }
-  }
+export interface ScrapeOptions {
+  /** County adapter to use (see counties/index.ts). Defaults to DEFAULT_COUNTY. */
+  county?: string;
+  /** First recording date to search (M/D/YYYY or YYYY-MM-DD). Defaults to today. */
+  startDate?: string;
+  /** Last recording date to search. Defaults to startDate. */
+  endDate?: string;
+  /** Split the range into windows of at most this many days.
+   *  Defaults to config.scraper.rangeChunkDays; 0 searches the whole range at once. */
+  chunkDays?: number;
+  /** Also search this many business days before startDate again, to catch
+   *  filings indexed after their recording date (new ones only come back once,
+   *  thanks to the dedup). Defaults to config.scraper.rescanBusinessDays. */
+  rescanDays?: number;
+  /** Document types to select (catalog aliases or exact site labels).
+   *  Defaults to config.scraper.documentTypes. */
+  documentTypes?: string[];
+  /** Release document types searched on their own in each window, after the
+   *  lead search, so released filings can be closed. Never run through
+   *  selectNew. Defaults to none. */
+  releaseDocumentTypes?: string[];
+  /** Open each new filing's detail page for case number, book/page, parcel IDs
+   *  and attorney. Defaults to config.scraper.enrichDetails. */
+  enrichDetails?: boolean;
+  /** Download each new filing's recorded document into the archive.
+   *  Defaults to config.scraper.archiveDocuments. */
+  archiveDocuments?: boolean;
 }
 
-export async function launchBrowser(): Promise<Page> {
-  log.step(0, 'Launching browser...');
-
-  // Clean up any zombie chromium processes before spawning a new one
-  killOrphanedChromium();
+/** Picks the filings that are new from one window's results (the dedup step).
+ *  Runs while the browser is still open so only new filings get enriched. */
+export type SelectNewFilings = (filings: Filing[]) => Filing[];
+
+/** The filings returned by one search window */
+export interface ChunkResult extends Omit<ResultsScrape, 'filings'> {
+  start_date: string;
+  end_date: string;
+  filings: Filing[];
+  /** The subset selectNew returned (all filings when no selector was given),
+   *  with detail and archive fields merged in when those passes ran */
+  new_filings: Filing[];
+  /** The window's release search, with its own counts (null when none was run) */
+  releases: (Omit<ResultsScrape, 'filings'> & { filings: Filing[] }) | null;
+}
 
-  // Brief pause to let the OS reclaim resources after killing processes
-  await new Promise(resolve => setTimeout(resolve, 1000));
+export interface ScrapeOutput {
+  county: string;
+  chunks: ChunkResult[];
+  document_types: string[];
+  date_searched: string;
+  start_date: string;
+  end_date: string;
+  /** The start date asked for — start_date is earlier when days were re-scanned */
+  requested_start_date: string;
+}
 
-  browser = await chromium.launch({
-    headless: scraperConfig.headless,
-    args: [
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-      '--disable-dev-shm-usage',
-    ],
-  });
+/** Resolve document type aliases ("final_judgment") or labels ("Final Judgment")
+ *  into the county's autocomplete options. Unknown labels are used verbatim. */
+export function resolveDocumentTypes(adapter: CountyAdapter, requested?: string[]): DocumentTypeOption[] {
+  const names = requested && requested.length > 0 ? requested : scraperConfig.documentTypes;
+  const catalog = Object.entries(adapter.documentTypes);
 
-  const context = await browser.newContext({
-    viewport: { width: 1280, height: 900 },
-    userAgent:
-      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  const resolved = names.map((name): DocumentTypeOption => {
+    const key = name.trim().toLowerCase();
+    const match = catalog.find(([alias, option]) => alias === key || option.label.toLowerCase() === key);
+    return match ? match[1] : { label: name.trim(), search: key };
   });
 
-  const page = await context.newPage();
-  page.setDefaultTimeout(scraperConfig.pageTimeout);
-
-  log.success('Browser launched');
-  return page;
+  // Drop duplicates ("lis_pendens" and "Lis Pendens" are the same option)
+  return resolved.filter((option, i) => resolved.findIndex(o => o.label === option.label) === i);
 }
 
-export async function closeBrowser(): Promise<void> {
-  if (browser) {
-    try {
-      await browser.close();
-    } catch {
-      // Graceful close failed — force-kill orphaned processes
-      killOrphanedChromium();
-    }
-    browser = null;
-    log.info('Browser closed');
+/** Resolve the options into the normalized date range (widened by the re-scan
+ *  days) and the search windows it will be split into. Throws if a date is
+ *  invalid or the range is backwards. */
+export function planSearchWindows(options: ScrapeOptions = {}): {
+  start_date: string;
+  end_date: string;
+  requested_start_date: string;
+  rescan_days: number;
+  windows: DateWindow[];
+} {
+  const rawStart = options.startDate || options.endDate || today();
+  const rawEnd = options.endDate || rawStart;
+
+  const start = parseDate(rawStart);
+  const end = parseDate(rawEnd);
+  if (!start) throw new Error(`Invalid start date "${rawStart}" — use M/D/YYYY or YYYY-MM-DD`);
+  if (!end) throw new Error(`Invalid end date "${rawEnd}" — use M/D/YYYY or YYYY-MM-DD`);
+  if (end < start) throw new Error(`End date ${rawEnd} is before start date ${rawStart}`);
+
+  const rescanDays = options.rescanDays ?? scraperConfig.rescanBusinessDays;
+  if (!Number.isInteger(rescanDays) || rescanDays < 0) {
+    throw new Error(`Invalid re-scan days "${options.rescanDays}" — use a whole number of business days (0 = off)`);
   }
-}
 
-// ---------------------------------------------------------------------------
-// Screenshot helpers
-// ---------------------------------------------------------------------------
-
-async function screenshot(page: Page, name: string): Promise<string> {
-  const filename = `${name}-${Date.now()}.png`;
-  const filepath = path.join(paths.screenshots, filename);
-  await page.screenshot({ path: filepath, fullPage: true });
-  log.info(`Screenshot saved: ${filename}`);
-  return filepath;
-}
-
-async function errorScreenshot(page: Page, name: string): Promise<string> {
-  const filename = `error-${name}-${Date.now()}.png`;
-  const filepath = path.join(paths.errors, filename);
-  await page.screenshot({ path: filepath, fullPage: true });
-  log.error(`Error screenshot saved: ${filename}`);
-  return filepath;
-}
-
-// ---------------------------------------------------------------------------
-// Delay helper — be polite to the county website
-// ---------------------------------------------------------------------------
+  const startDate = formatSiteDate(
+    rescanDays > 0 ? parseDate(businessDaysBefore(toIsoDate(rawStart)!, rescanDays))! : start,
+  );
+  const endDate = formatSiteDate(end);
+  const chunkDays = options.chunkDays ?? scraperConfig.rangeChunkDays;
+  if (!Number.isInteger(chunkDays) || chunkDays < 0) {
+    throw new Error(`Invalid chunk size "${options.chunkDays}" — use a whole number of days (0 = no chunking)`);
+  }
 
-function delay(ms?: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms ?? scraperConfig.actionDelay));
+  return {
+    start_date: startDate,
+    end_date: endDate,
+    requested_start_date: formatSiteDate(start),
+    rescan_days: rescanDays,
+    windows: splitDateRange(startDate, endDate, chunkDays),
+  };
 }
 
-// ---------------------------------------------------------------------------
-// Step 1: Navigate to disclaimer page and handle CAPTCHA
-// ---------------------------------------------------------------------------
-
-async function navigateAndAcceptDisclaimer(page: Page): Promise<void> {
-  log.step(1, 'Navigating to Orange County Comptroller portal...');
-
-  await page.goto(scraperConfig.startUrl, { waitUntil: 'networkidle' });
-  await delay(2000); // Let the page fully settle
-  await screenshot(page, '01-disclaimer-page');
-
-  // --- Solve reCAPTCHA v2 checkbox ---
-  log.step(1, 'Waiting for reCAPTCHA to load...');
-
-  // The reCAPTCHA widget takes a few seconds to load after the page.
-  // Wait for the iframe to appear, which signals the widget is ready.
+/** The county, range and document types a request asked for — for failure
+ *  reports, so it never throws (falls back to the raw input when the request
+ *  itself was the problem). */
+export function describeScrapeRequest(options: ScrapeOptions): {
+  county: string;
+  start_date: string;
+  end_date: string;
+  document_types: string[];
+} {
+  let county = options.county || scraperConfig.defaultCounty;
+  let documentTypes = options.documentTypes ?? scraperConfig.documentTypes;
   try {
-    await page.waitForSelector(
-      'iframe[src*="recaptcha"], [data-sitekey], .g-recaptcha',
-      { timeout: 15_000 }
-    );
-    log.info('reCAPTCHA widget detected on page');
+    const adapter = getCountyAdapter(options.county);
+    county = adapter.id;
+    documentTypes = resolveDocumentTypes(adapter, options.documentTypes).map(t => t.label);
   } catch {
-    log.warn('reCAPTCHA iframe not found after 15s — may not be present');
+    // Unknown county — report what was asked for
   }
 
-  // Extra wait for the reCAPTCHA to fully initialize its JavaScript
-  await delay(3000);
-
-  // The site has a reCAPTCHA v2 "I'm not a robot" checkbox.
-  // We find the sitekey from the page and send it to 2Captcha.
-  const siteKey = await page.evaluate(() => {
-    const el = document.querySelector('[data-sitekey]');
-    return el?.getAttribute('data-sitekey') || null;
-  });
-
-  if (siteKey) {
-    log.info(`reCAPTCHA found (sitekey: ${siteKey.substring(0, 10)}...), solving via 2Captcha...`);
-
-    // Try solving the CAPTCHA up to 2 times (2Captcha uses real humans, can be slow)
-    let solved = false;
-    for (let attempt = 1; attempt <= 2; attempt++) {
-      try {
-        if (attempt > 1) log.info(`CAPTCHA retry attempt ${attempt}...`);
-        const result = await solveCaptcha(siteKey, scraperConfig.startUrl);
-
-        // Inject the solved token into the page
-        await page.evaluate(getCaptchaInjectionScript(result.token));
-        log.success(`CAPTCHA solved on attempt ${attempt} (cost: $${result.costUsd})`);
-        solved = true;
-        break;
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : String(err);
-        log.warn(`CAPTCHA attempt ${attempt} failed: ${msg}`);
-        if (attempt === 2) throw err;
-        log.info('Waiting 5 seconds before retrying...');
-        await delay(5000);
-      }
-    }
-
-    await delay(2000); // Let the page process the token
-  } else {
-    log.warn('No reCAPTCHA sitekey found — may not be present or page structure changed');
+  try {
+    const { start_date, end_date } = planSearchWindows(options);
+    return { county, start_date, end_date, document_types: documentTypes };
+  } catch {
+    const start = options.startDate || today();
+    return { county, start_date: start, end_date: options.endDate || start, document_types: documentTypes };
   }
-
-  // --- Click "I Accept" button ---
-  log.step(1, 'Clicking "I Accept" button...');
-
-  // Wait for the button to be enabled (it's disabled until CAPTCHA is solved)
-  const acceptButton = page.getByRole('button', { name: 'I Accept' });
-  await acceptButton.waitFor({ state: 'visible', timeout: 10_000 });
-  await delay(1000); // Brief pause like a human would
-  await acceptButton.click();
-  await page.waitForLoadState('networkidle');
-  await delay(2000); // Let the next page fully load
-  await screenshot(page, '02-after-accept');
-
-  log.success('Disclaimer accepted');
 }
 
-// ---------------------------------------------------------------------------
-// Step 2: Navigate to Basic Official Records Search
-// ---------------------------------------------------------------------------
-
-async function navigateToSearch(page: Page): Promise<void> {
-  log.step(2, 'Navigating to Basic Official Records Search...');
-
-  // From screenshot: the home page has card-style boxes. "Basic Official Records
-  // Search" is the first blue card with subtitle "Search by Name, Date or Document Number".
-  // The link URL is: ssweb/search/DOCSEARCH2950S1
-
-  // Wait for the home page content to fully render
-  await page.waitForSelector('text=Basic Official Records Search', { timeout: 15_000 });
-  await delay(1500);
-
-  await page.getByText('Basic Official Records Search').click();
-  await page.waitForLoadState('networkidle');
-  await delay(2000); // Let the search form fully render
-
-  // Wait for the search form to actually appear
-  await page.waitForSelector('input[placeholder="mm/dd/yyyy"]', { timeout: 15_000 });
-  await screenshot(page, '03-search-page');
+/** Run the adapter's detail pass over new filings. One filing failing to
+ *  enrich is logged and skipped — it must never fail the whole scrape. */
+async function enrichFilings(adapter: CountyAdapter, page: Page, filings: Filing[], signal?: AbortSignal): Promise<Filing[]> {
+  if (!adapter.fetchDetails) {
+    log.warn(`${adapter.name} has no detail page support — skipping enrichment`);
+    return filings;
+  }
 
-  log.success('Search page loaded');
+  log.step(5, `Fetching detail pages for ${filings.length} new filing(s)...`);
+  const enriched: Filing[] = [];
+  for (const filing of filings) {
+    signal?.throwIfAborted();
+    try {
+      const details = await adapter.fetchDetails(page, filing);
+      enriched.push({ ...filing, ...details });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn(`Could not enrich ${filing.document_number}: ${message}`);
+      enriched.push(filing);
+    }
+    await delay();
+  }
+  return enriched;
 }
 
-// ---------------------------------------------------------------------------
-// Step 3: Fill out the search form
-// ---------------------------------------------------------------------------
-
-async function fillSearchForm(page: Page, date?: string): Promise<string> {
-  log.step(3, 'Filling out search form...');
-
-  // --- Build date string in M/D/YYYY format ---
-  // If a date was provided (e.g. from n8n), use it. Otherwise use today.
-  let dateString: string;
-  if (date) {
-    dateString = date;
-  } else {
-    const today = new Date();
-    dateString = `${today.getMonth() + 1}/${today.getDate()}/${today.getFullYear()}`;
+/** Download and archive the recorded document for each new filing. Like
+ *  enrichment, a failure is logged per filing and never fails the scrape. */
+async function archiveFilings(adapter: CountyAdapter, page: Page, filings: Filing[], signal?: AbortSignal): Promise<Filing[]> {
+  if (!adapter.downloadDocument) {
+    log.warn(`${adapter.name} has no document download support — skipping archive`);
+    return filings;
   }
-  log.info(`Searching for filings on: ${dateString}`);
-
-  // --- Recording Date Start ---
-  log.info('Setting Recording Date Start...');
-
-  // Type the date directly into the input field (simpler than the calendar picker)
-  const dateInputs = page.locator('input[placeholder="mm/dd/yyyy"]');
-  const startDateInput = dateInputs.nth(0);
-  const endDateInput = dateInputs.nth(1);
-
-  await startDateInput.click();
-  await delay(500);
-  // Triple-click to select any existing text, then type over it
-  await startDateInput.click({ clickCount: 3 });
-  await startDateInput.pressSequentially(dateString, { delay: 50 });
-  // Press Tab to move focus out and confirm the value
-  await startDateInput.press('Tab');
-  await delay(1000);
-
-  log.info('Recording Date Start set');
-
-  // --- Recording Date End ---
-  log.info('Setting Recording Date End...');
-
-  await endDateInput.click();
-  await delay(500);
-  await endDateInput.click({ clickCount: 3 });
-  await endDateInput.pressSequentially(dateString, { delay: 50 });
-  await endDateInput.press('Tab');
-  await delay(1000);
-
-  log.info('Recording Date End set');
-
-  // --- Document Type: Lis Pendens ---
-  log.info('Selecting document type: Lis Pendens');
-
-  // From screenshots: the Document Types field is a searchable input.
-  // It has a magnifying glass icon and when you click it shows a dropdown
-  // of all document types. When you type "lis" it filters to show "Lis Pendens".
-  // The error log revealed the exact selector: getByRole('textbox', { name: 'Document Types' })
-  // This targets the visible text input (id="field_selfservice_documentTypes"), not the hidden one.
-  const docTypeField = page.getByRole('textbox', { name: 'Document Types' });
-  await docTypeField.click();
-  await delay(1000); // Let the dropdown initialize
-  await docTypeField.pressSequentially('lis', { delay: 150 });
-  await delay(2000); // Wait for autocomplete/filter to process
-
-  // From screenshot: the dropdown shows two items after typing "lis":
-  //   1. The typed text echo (not clickable)
-  //   2. The actual "Lis Pendens" option (bottom one — this is what we want)
-  // Use .last() to always target the real selectable option at the bottom.
-  await page.locator('li, .option, [role="option"]').filter({ hasText: 'Lis Pendens' }).last().click();
-  await delay(1000); // Let the tag/chip appear
-
-  await screenshot(page, '04-form-filled');
 
-  // Verify "Lis Pendens" chip/tag appeared in the field
-  const selectedTag = page.locator('text=Lis Pendens').first();
-  if (await selectedTag.isVisible()) {
-    log.success('Document type "Lis Pendens" selected');
-  } else {
-    log.warn('Could not confirm "Lis Pendens" was selected — continuing anyway');
+  log.step(6, `Archiving recorded documents for ${filings.length} new filing(s)...`);
+  const archived: Filing[] = [];
+  for (const filing of filings) {
+    signal?.throwIfAborted();
+    try {
+      const file = await adapter.downloadDocument(page, filing);
+      if (file) {
+        archived.push({ ...filing, ...archiveDocument(filing.county, filing.document_number, file) });
+      } else {
+        log.info(`No document image available for ${filing.document_number}`);
+        archived.push(filing);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.warn(`Could not archive ${filing.document_number}: ${message}`);
+      archived.push(filing);
+    }
+    await delay();
   }
-
-  // --- Click Search ---
-  log.step(3, 'Submitting search...');
-
-  // From screenshot: "Search" button with magnifying glass icon, bottom-right of form
-  await page.getByRole('button', { name: 'Search', exact: true }).click();
-  await page.waitForLoadState('networkidle');
-  await delay(3000); // Give results time to fully render
-  await screenshot(page, '05-results');
-
-  log.success('Search submitted');
-  return dateString;
+  return archived;
 }
 
-// ---------------------------------------------------------------------------
-// Step 4: Scrape results — card-based layout
-// ---------------------------------------------------------------------------
-// The results page uses a card layout, NOT a table. Each result looks like:
-//
-//   20260071189 • Lis Pendens • 02/05/2026 01:31 PM
-//   Grantor                Grantee              Legal              BookPage
-//   RIDGEMOORE HOA INC     DE OLIVEIRA ANDREA C Lot: 7 RIDGE...
-//
-// We scrape by finding each result card and extracting the text content.
-// ---------------------------------------------------------------------------
-
-async function scrapeResults(page: Page): Promise<Filing[]> {
-  log.step(4, 'Scraping results...');
-
-  // Check if there are any results at all
-  const noResults = await page.getByText('No results found').isVisible().catch(() => false);
-  if (noResults) {
-    log.info('No results found for this date range');
-    return [];
+/** Run the scrape. Aborting `signal` stops it at the next step and closes the
+ *  browser, so whatever page call is in flight fails straight away. */
+export async function scrapeFilings(
+  options: ScrapeOptions = {},
+  selectNew: SelectNewFilings = (filings) => filings,
+  signal?: AbortSignal,
+): Promise<ScrapeOutput> {
+  const adapter = getCountyAdapter(options.county);
+  const { start_date, end_date, requested_start_date, rescan_days, windows } = planSearchWindows(options);
+  const documentTypes = resolveDocumentTypes(adapter, options.documentTypes);
+  const releaseTypes = options.releaseDocumentTypes?.length
+    ? resolveDocumentTypes(adapter, options.releaseDocumentTypes)
+    : [];
+  const enrich = options.enrichDetails ?? scraperConfig.enrichDetails;
+  const archive = options.archiveDocuments ?? scraperConfig.archiveDocuments;
+  log.info(`County: ${adapter.name} — document types: ${documentTypes.map(t => t.label).join(', ')}`);
+  if (releaseTypes.length > 0) {
+    log.info(`Release types (searched separately): ${releaseTypes.map(t => t.label).join(', ')}`);
   }
-
-  // Get the total result count from the header text
-  // Format: "Showing page 1 of 1 for 9 Total Results"
-  const headerText = await page.getByText('Total Results').textContent().catch(() => '');
-  const totalMatch = headerText?.match(/(\d+)\s*Total Results/);
-  if (totalMatch) {
-    log.info(`Results page says: ${totalMatch[1]} total results`);
+  if (rescan_days > 0) {
+    log.info(`Re-scanning ${rescan_days} business day(s) back for late-indexed filings (from ${start_date})`);
+  }
+  if (windows.length > 1) {
+    log.info(`Date range ${start_date} - ${end_date} split into ${windows.length} search windows`);
   }
 
-  // Scrape all result cards from the page.
-  // Each card's full text contains the doc number, type, date, and party names.
-  // We use page.evaluate() to extract structured data from the DOM in one pass.
-  const filings = await page.evaluate(() => {
-    const results: Array<{
-      document_number: string;
-      document_type: string;
-      recording_date: string;
-      grantor_name: string;
-      grantee_name: string;
-      legal_description: string;
-    }> = [];
-
-    // Strategy 1: Look for result card containers.
-    // Tyler Tech ssweb apps typically wrap each result in a repeated element
-    // with a document number as a prominent header or link.
-
-    // Find all elements that contain a document number pattern (11-digit number)
-    // The header format is: "20260071189 • Lis Pendens • 02/05/2026 01:31 PM"
-    const allElements = document.querySelectorAll(
-      // Common card containers in Tyler Tech apps
-      '.search-result, .result-card, .document-card, ' +
-      // Angular component selectors
-      '[class*="result"], [class*="record"], [class*="document-row"], ' +
-      // Generic card/list patterns
-      '.card, .list-item, .row-item'
-    );
-
-    // If we found card containers, extract data from each
-    if (allElements.length > 0) {
-      for (const card of allElements) {
-        const text = card.textContent || '';
-
-        // Look for document number pattern: 11+ digits
-        const docMatch = text.match(/(\d{11,})/);
-        if (!docMatch) continue;
-
-        // Look for date pattern: MM/DD/YYYY
-        const dateMatch = text.match(/(\d{1,2}\/\d{1,2}\/\d{4})/);
-
-        // Look for Grantor/Grantee sections
-        const grantorSection = card.querySelector('[class*="grantor"], [data-label*="Grantor"]');
-        const granteeSection = card.querySelector('[class*="grantee"], [data-label*="Grantee"]');
-        const legalSection = card.querySelector('[class*="legal"], [data-label*="Legal"]');
-
-        const grantorText = grantorSection?.textContent?.replace(/Grantor\s*(\(\d+\))?/i, '').trim() || '';
-        const granteeText = granteeSection?.textContent?.replace(/Grantee\s*(\(\d+\))?/i, '').trim() || '';
-        const legalText = legalSection?.textContent?.replace(/Legal/i, '').trim() || '';
+  signal?.throwIfAborted();
+  const page = await launchBrowser();
+  const onAbort = () => { void closeBrowser(); };
+  signal?.addEventListener('abort', onAbort, { once: true });
 
-        results.push({
-          document_number: docMatch[1],
-          document_type: 'Lis Pendens',
-          recording_date: dateMatch ? dateMatch[1] : '',
-          grantor_name: grantorText,
-          grantee_name: granteeText,
-          legal_description: legalText,
-        });
+  try {
+    await adapter.navigate(page);
+    await adapter.acceptDisclaimer(page);
+
+    const chunks: ChunkResult[] = [];
+    for (let i = 0; i < windows.length; i++) {
+      const window = windows[i];
+      if (windows.length > 1) {
+        log.info(`Search window ${i + 1}/${windows.length}: ${describeRange(window.start, window.end)}`);
       }
-    }
-
-    // Strategy 2: If strategy 1 found nothing, try parsing the full page text
-    // by looking for the repeating pattern of document numbers
-    if (results.length === 0) {
-      const bodyText = document.body.innerText;
-      // Match lines that start with an 11-digit number followed by bullet separators
-      const cardPattern = /(\d{11,})\s*[•·]\s*(Lis Pendens)\s*[•·]\s*(\d{1,2}\/\d{1,2}\/\d{4}[^]*?)(?=\d{11,}\s*[•·]|$)/g;
-      let match;
-
-      while ((match = cardPattern.exec(bodyText)) !== null) {
-        const cardText = match[3];
 
-        // Extract Grantor text (everything between "Grantor" label and "Grantee" label)
-        const grantorMatch = cardText.match(/Grantor(?:\s*\(\d+\))?\s+([\s\S]*?)(?=Grantee)/i);
-        const granteeMatch = cardText.match(/Grantee(?:\s*\(\d+\))?\s+([\s\S]*?)(?=Legal)/i);
-        const legalMatch = cardText.match(/Legal\s+([\s\S]*?)(?=BookPage|$)/i);
+      signal?.throwIfAborted();
+      const request: SearchRequest = { window, documentTypes, firstSearch: i === 0 };
+      await adapter.search(page, request);
+      const results = await adapter.parseResults(page, request);
 
-        results.push({
-          document_number: match[1],
-          document_type: match[2],
-          recording_date: match[3].match(/(\d{1,2}\/\d{1,2}\/\d{4})/)?.[1] || '',
-          grantor_name: grantorMatch?.[1]?.trim() || '',
-          grantee_name: granteeMatch?.[1]?.trim() || '',
-          legal_description: legalMatch?.[1]?.trim() || '',
-        });
+      const filings: Filing[] = results.filings.map(f => withCaseStatus(withLeadScore(withClassification(withParties({ ...f, county: adapter.id })))));
+      let newFilings = selectNew(filings);
+      if (enrich && newFilings.length > 0) {
+        newFilings = await enrichFilings(adapter, page, newFilings, signal);
+      }
+      if (archive && newFilings.length > 0) {
+        newFilings = await archiveFilings(adapter, page, newFilings, signal);
       }
-    }
-
-    return results;
-  });
-
-  log.success(`Scraped ${filings.length} filing(s) from results page`);
-
-  // Log first result as a sample for verification
-  if (filings.length > 0) {
-    log.info('Sample result:', filings[0]);
-  }
-
-  return filings;
-}
 
-// ---------------------------------------------------------------------------
-// Main scrape function — orchestrates the full flow
-// ---------------------------------------------------------------------------
+      // Releases get a search of their own so their count doesn't mix with the
+      // leads' and a single-type search can still fill in an unreadable type
+      let releases: ChunkResult['releases'] = null;
+      if (releaseTypes.length > 0) {
+        signal?.throwIfAborted();
+        const releaseRequest: SearchRequest = { window, documentTypes: releaseTypes, firstSearch: false };
+        await adapter.search(page, releaseRequest);
+        const releaseResults = await adapter.parseResults(page, releaseRequest);
+        releases = { ...releaseResults, filings: releaseResults.filings.map(f => ({ ...f, county: adapter.id })) };
+      }
 
-export async function scrapeFilings(date?: string): Promise<{ filings: Filing[]; date_searched: string }> {
-  const page = await launchBrowser();
+      chunks.push({
+        start_date: window.start,
+        end_date: window.end,
+        ...results,
+        filings,
+        new_filings: newFilings,
+        releases,
+      });
+    }
 
-  try {
-    await navigateAndAcceptDisclaimer(page);
-    await navigateToSearch(page);
-    const dateSearched = await fillSearchForm(page, date);
-    const filings = await scrapeResults(page);
-    return { filings, date_searched: dateSearched };
+    return {
+      county: adapter.id,
+      chunks,
+      document_types: documentTypes.map(t => t.label),
+      date_searched: describeRange(start_date, end_date),
+      start_date,
+      end_date,
+      requested_start_date,
+    };
   } catch (error) {
-    await errorScreenshot(page, 'scrape-failure');
-    throw error;
+    // An aborted run's browser is already closing — nothing to screenshot
+    if (!signal?.aborted) await errorScreenshot(page, 'scrape-failure');
+    throw signal?.aborted ? signal.reason : error;
   } finally {
+    signal?.removeEventListener('abort', onAbort);
     await closeBrowser();
   }
 }
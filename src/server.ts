@@ -5,33 +5,94 @@
  *
  * Endpoints:
  *   GET  /health        — Returns server status + database stats
- *   POST /scrape        — Triggers a scrape (returns 202 immediately)
- *   GET  /scrape/result — Returns the result of the most recent scrape
+ *   POST /scrape        — Queues a scrape (returns 202 with a job_id immediately)
+ *                         Body (all optional): { date } for one day, or
+ *                         { start_date, end_date, chunk_days } for a backfill,
+ *                         plus { rescan_days } (also re-search that many business
+ *                         days before, for late-indexed filings — RESCAN_BUSINESS_DAYS)
+ *                         plus { document_types } (array or comma-separated list)
+ *                         and { county } (defaults to DEFAULT_COUNTY)
+ *                         and { enrich_details } (read each new filing's detail page)
+ *                         and { archive_documents } (download each new filing's document)
+ *                         and { callback_url } (POST the result there when done;
+ *                         defaults to CALLBACK_URL — see webhooks.ts)
+ *   GET  /scrape/result — Returns the result of the most recent scrape job
+ *   GET  /jobs          — Scrape and case-tracking jobs, newest first (?status=, ?limit= up to 500)
+ *   GET  /jobs/:id      — One job's status and, once finished, its ScrapeResult
+ *                         (CaseTrackingResult for kind "track_cases")
+ *   GET  /filings       — Stored filings, most recently recorded first
+ *                         (?county=, ?start_date=, ?end_date=, ?document_type= (comma list),
+ *                         ?grantor=, ?grantee= (substring), ?status= (lead status),
+ *                         ?case_status=, ?limit= up to 500, ?cursor= from next_cursor)
+ *   GET  /filings/:document_number
+ *                       — The filing with its parties, property, contacts, status
+ *                         history and case events (?county= to disambiguate)
+ *   GET  /filings/:document_number/document
+ *                       — Serves the archived recorded document (?county= to disambiguate)
+ *   GET  /export        — Filings as a file in the Google Sheet column layout
+ *                         (?format=csv|xlsx|ndjson, plus the GET /filings filters)
+ *   POST /lookup-address — Finds a filing's property address in the statewide parcel layer
+ *                         Body: a filing { document_number, grantee_name, legal_description, county }
+ *                         A stored filing keeps the result and is re-scored
+ *   POST /filings/:document_number/status
+ *                       — Moves a lead to a new status. Body: { status, note?, county? }
+ *   POST /filings/:document_number/contacts
+ *                       — Stores skip-trace results for the filing's people.
+ *                         Body: { county?, contacts: [{ name | first_name + last_name,
+ *                         phones, emails, mailing_address, skip_trace_status }] }
+ *   GET  /leads         — Scored filings, highest lead_score first
+ *                         (?county=, ?min_score=, ?limit= up to 500,
+ *                         ?actionable=true to hide sold/released cases)
  *
- * The /scrape endpoint is async — it accepts the request, starts the scrape in
- * the background, and returns 202 right away.  n8n should then poll
- * /scrape/result every ~30s until scraper_busy is false.
+ * The /scrape endpoint is async — it queues the request as a job (see
+ * jobQueue.ts) and returns 202 with its job_id right away. Jobs run one at a
+ * time in the background. n8n should then poll GET /jobs/:id every ~30s until
+ * the status is succeeded or failed.
  *
  * This avoids Railway's HTTP proxy timeout which kills long-running responses.
  *
- * Usage: npm run serve
+ * Every endpoint but /health needs an API key (Authorization: Bearer <key>)
+ * with the right scope — trigger for POST /scrape and /lookup-address, read
+ * for the GETs, admin for the lead record updates — and is rate limited per
+ * key (see apiKeys.ts; `npm run api-keys` manages keys). Browsers are only
+ * let in from CORS_ORIGINS.
+ *
+ * With SCHEDULE_ENABLED=true (or --schedule) the server also queues scrapes
+ * itself on SCHEDULE_CRONS, skipping weekends and Florida holidays (see
+ * scheduler.ts); /health lists the next planned runs.
+ *
+ * Usage: npm run serve   (npm run schedule to start with the scheduler on)
  */
 
 import http from 'http';
-import { runScraper } from './index.js';
-import { closeBrowser } from './scraper.js';
-import { initDatabase, closeDatabase, getFilingCount } from './database.js';
+import fs from 'fs';
+import path from 'path';
+import type { ScrapeOptions } from './scraper.js';
+import { enqueueScrape, startJobQueue, isScraping } from './jobQueue.js';
+import { resolveCallbackUrl } from './webhooks.js';
+import { startScheduler, getScheduleStatus } from './scheduler.js';
+import {
+  initDatabase, closeDatabase, getFilingCount, getArchivedDocument,
+  getFilingToScore, saveAddressLookup, saveLeadScore, getLeads,
+  setLeadStatus, getParties, saveContact, getFilings, findFilingCounty, getLeadRecord, LEAD_STATUSES,
+  getJob, getJobs, getJobCounts, JOB_STATUSES, countActiveApiKeys,
+  type LeadStatus, type SkipTraceStatus, type JobStatus, type Job, type ScrapeJob, type ApiKey, type ApiScope,
+} from './database.js';
+import { authenticate, hasScope, checkRateLimit } from './apiKeys.js';
+import { resolveArchivePath } from './documentArchive.js';
+import { lookupAddress } from './parcelLookup.js';
+import { scoreLead } from './leadScoring.js';
+import {
+  parseFilingFilters, exportRows, writeExport, EXPORT_FORMATS, CONTENT_TYPES,
+  type ExportFormat, type ExportRow, type FilingFilters,
+} from './export.js';
 import { getStats } from './convexLogger.js';
-import { server as serverConfig } from './config.js';
+import {
+  server as serverConfig, scraper as scraperConfig, schedule as scheduleConfig,
+  callbacks as callbackConfig, parseList,
+} from './config.js';
 import { log } from './logger.js';
-import type { ScrapeResult } from './index.js';
-
-// ---------------------------------------------------------------------------
-// Concurrency lock — only one scrape can run at a time (one browser)
-// ---------------------------------------------------------------------------
-let isRunning = false;
-let lastRunAt: string | null = null;
-let lastResult: ScrapeResult | null = null;
+import { today, toIsoDate } from './dates.js';
 
 // ---------------------------------------------------------------------------
 // Request body parser
@@ -51,6 +112,13 @@ async function parseBody(req: http.IncomingMessage): Promise<any> {
   });
 }
 
+/** `document_types` may arrive as a JSON array or a comma-separated string */
+function parseDocumentTypes(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) return value.map(String).map(v => v.trim()).filter(Boolean);
+  if (typeof value === 'string') return parseList(value);
+  return undefined;
+}
+
 // ---------------------------------------------------------------------------
 // JSON response helper
 // ---------------------------------------------------------------------------
@@ -59,15 +127,76 @@ function jsonResponse(
   statusCode: number,
   data: any
 ): void {
-  res.writeHead(statusCode, {
-    'Content-Type': 'application/json',
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
-  });
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
   res.end(JSON.stringify(data, null, 2));
 }
 
+// ---------------------------------------------------------------------------
+// Access control — CORS, API keys, rate limits
+// ---------------------------------------------------------------------------
+
+/** Allow the request's Origin if it's in CORS_ORIGINS. Set before any
+ *  response is written so every response (and preflight) carries it. */
+function setCorsHeaders(req: http.IncomingMessage, res: http.ServerResponse): void {
+  const origin = req.headers.origin;
+  const allowAny = serverConfig.corsOrigins.includes('*');
+  if (!origin || (!allowAny && !serverConfig.corsOrigins.includes(origin))) return;
+
+  res.setHeader('Access-Control-Allow-Origin', allowAny ? '*' : origin);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (!allowAny) res.setHeader('Vary', 'Origin');
+}
+
+/** The scope a request needs (see apiKeys.ts); null for the open /health */
+function requiredScope(method: string | undefined, url: string | undefined): ApiScope | null {
+  if (method === 'GET' && url === '/health') return null;
+  if (method === 'GET') return 'read';
+  if (method === 'POST' && (url === '/scrape' || url === '/lookup-address')) return 'trigger';
+  return 'admin';
+}
+
+/** Check the request's API key, scope and rate limit. Answers 401/403/429
+ *  itself and returns false when the request mustn't go on. */
+function authorize(req: http.IncomingMessage, res: http.ServerResponse, scope: ApiScope): boolean {
+  initDatabase();
+  let key: ApiKey | null;
+  try {
+    key = authenticate(req.headers.authorization);
+  } finally {
+    closeDatabase();
+  }
+
+  if (!key) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    jsonResponse(res, 401, {
+      error: 'Missing or invalid API key — send Authorization: Bearer <key>',
+      error_step: 'unauthorized',
+    });
+    return false;
+  }
+  if (!hasScope(key, scope)) {
+    jsonResponse(res, 403, {
+      error: `API key ${key.id} does not have the "${scope}" scope`,
+      error_step: 'forbidden',
+    });
+    return false;
+  }
+
+  const rate = checkRateLimit(key);
+  res.setHeader('X-RateLimit-Limit', rate.limit);
+  res.setHeader('X-RateLimit-Remaining', rate.remaining);
+  if (!rate.allowed) {
+    res.setHeader('Retry-After', rate.reset_seconds);
+    jsonResponse(res, 429, {
+      error: `Rate limit of ${rate.limit} requests per minute exceeded — retry in ${rate.reset_seconds}s`,
+      error_step: 'rate_limited',
+    });
+    return false;
+  }
+  return true;
+}
+
 // ---------------------------------------------------------------------------
 // Route handlers
 // ---------------------------------------------------------------------------
@@ -76,15 +205,25 @@ function jsonResponse(
 async function handleHealth(res: http.ServerResponse): Promise<void> {
   try {
     initDatabase();
-    const totalFilings = getFilingCount();
-    closeDatabase();
+    let totalFilings: number;
+    let jobs: Record<JobStatus, number>;
+    let lastStarted: Job | undefined;
+    try {
+      totalFilings = getFilingCount();
+      jobs = getJobCounts();
+      lastStarted = getJobs({ limit: 50 }).find(job => job.started_at);
+    } finally {
+      closeDatabase();
+    }
 
     const convexStats = await getStats();
 
     jsonResponse(res, 200, {
       status: 'ok',
-      scraper_busy: isRunning,
-      last_run_at: lastRunAt,
+      scraper_busy: isScraping(),
+      last_run_at: lastStarted?.started_at ?? null,
+      jobs,
+      schedule: getScheduleStatus(),
       timestamp: new Date().toISOString(),
       database: {
         total_filings: totalFilings,
@@ -100,144 +239,429 @@ async function handleHealth(res: http.ServerResponse): Promise<void> {
   }
 }
 
-/** POST /scrape — Kick off a scrape in the background, return 202 immediately.
- *  n8n should poll GET /scrape/result until scraper_busy is false. */
+/** POST /scrape — Queue a scrape and return 202 with its job_id right away.
+ *  n8n should poll GET /jobs/:id until the job has succeeded or failed. */
 async function handleScrape(
   req: http.IncomingMessage,
   res: http.ServerResponse
 ): Promise<void> {
-  // Prevent concurrent scrapes (only one browser at a time)
-  if (isRunning) {
-    jsonResponse(res, 409, {
+  // Parse the optional date / date range from the request body.
+  // `date` is shorthand for a single day; `start_date`/`end_date` request a backfill.
+  const body = await parseBody(req);
+  const options: ScrapeOptions = {
+    county: body.county,
+    startDate: body.start_date || body.date,
+    endDate: body.end_date || body.date,
+    chunkDays: body.chunk_days !== undefined ? Number(body.chunk_days) : undefined,
+    rescanDays: body.rescan_days !== undefined ? Number(body.rescan_days) : undefined,
+    documentTypes: parseDocumentTypes(body.document_types),
+    enrichDetails: typeof body.enrich_details === 'boolean' ? body.enrich_details : undefined,
+    archiveDocuments: typeof body.archive_documents === 'boolean' ? body.archive_documents : undefined,
+  };
+
+  let job: ScrapeJob;
+  try {
+    job = enqueueScrape(options, resolveCallbackUrl(body.callback_url));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    jsonResponse(res, 400, {
       success: false,
-      error: 'A scrape is already in progress. Poll GET /scrape/result for status.',
-      error_step: 'concurrency_lock',
-      scraper_busy: true,
+      error: message,
+      error_step: 'invalid_request',
     });
     return;
   }
 
-  // Parse optional date from request body
-  const body = await parseBody(req);
-  const date: string | undefined = body.date;
+  jsonResponse(res, 202, {
+    accepted: true,
+    job_id: job.job_id,
+    status: job.status,
+    message: job.callback_url
+      ? `Scrape ${job.status}. The result will be POSTed to ${job.callback_url}.`
+      : `Scrape ${job.status}. Poll GET /jobs/${job.job_id} for the outcome.`,
+    scraper_busy: true,
+    created_at: job.created_at,
+    callback_url: job.callback_url,
+  });
+}
 
-  if (date) {
-    log.info(`Scrape triggered via HTTP with custom date: ${date}`);
-  } else {
-    log.info('Scrape triggered via HTTP (using today\'s date)');
+/** GET /scrape/result — The latest job's result, or busy status while it runs.
+ *  Kept for workflows written before job ids; GET /jobs/:id is preferred. */
+function handleResult(res: http.ServerResponse): void {
+  initDatabase();
+  let latest: ScrapeJob | undefined;
+  try {
+    [latest] = getJobs({ kind: 'scrape', limit: 1 }) as ScrapeJob[];
+  } finally {
+    closeDatabase();
   }
 
-  isRunning = true;
-  lastRunAt = new Date().toISOString();
-  lastResult = null;
+  if (!latest) {
+    jsonResponse(res, 200, {
+      scraper_busy: false,
+      message: 'No scrape has been run yet.',
+      last_run_at: null,
+    });
+    return;
+  }
 
-  // Return 202 immediately — the scrape runs in the background
-  jsonResponse(res, 202, {
-    accepted: true,
-    message: 'Scrape started. Poll GET /scrape/result for the outcome.',
-    scraper_busy: true,
-    started_at: lastRunAt,
+  if (!latest.result) {
+    const elapsed = latest.started_at ? Date.now() - sqliteTime(latest.started_at) : 0;
+    jsonResponse(res, 200, {
+      scraper_busy: true,
+      job_id: latest.job_id,
+      status: latest.status,
+      message: 'Scrape is still running. Poll again in 30 seconds.',
+      started_at: latest.started_at,
+      elapsed_seconds: Math.round(elapsed / 1000),
+    });
+    return;
+  }
+
+  // Return 500 when the scrape failed so n8n's error branch triggers on the
+  // poll response — not just the initial trigger request.
+  const statusCode = latest.result.success ? 200 : 500;
+  jsonResponse(res, statusCode, {
+    scraper_busy: false,
+    job_id: latest.job_id,
+    ...latest.result,
   });
+}
+
+/** SQLite datetime('now') (UTC, no zone) → epoch ms */
+function sqliteTime(value: string): number {
+  return new Date(value.replace(' ', 'T') + 'Z').getTime();
+}
+
+/** GET /jobs — Scrape jobs, newest first, without their results */
+function handleJobs(res: http.ServerResponse, query: URLSearchParams): void {
+  const status = query.get('status') || undefined;
+  const limit = query.has('limit') ? parseInt(query.get('limit')!, 10) : 50;
+  if ((status && !JOB_STATUSES.includes(status as JobStatus)) || !Number.isInteger(limit) || limit < 1 || limit > 500) {
+    jsonResponse(res, 400, {
+      error: `status must be one of: ${JOB_STATUSES.join(', ')}, and limit an integer from 1 to 500`,
+      error_step: 'invalid_request',
+    });
+    return;
+  }
 
-  // Run the scrape in the background (fire-and-forget from the HTTP perspective)
-  runScrapeInBackground(date);
+  initDatabase();
+  try {
+    const jobs = getJobs({ status: status as JobStatus | undefined, limit }).map(job => {
+      const { result, ...summary } = job;
+      const scrape = job.kind === 'scrape' ? job.result : null;
+      const tracking = job.kind === 'track_cases' ? job.result : null;
+      return {
+        ...summary,
+        success: result?.success ?? null,
+        new_filings: scrape?.new_filings.length ?? null,
+        late_filings: scrape?.late_filings ?? null,
+        status_changes: tracking?.status_changes.length ?? null,
+      };
+    });
+    jsonResponse(res, 200, { count: jobs.length, jobs });
+  } finally {
+    closeDatabase();
+  }
+}
+
+/** GET /jobs/:id — One job with its full result once it has finished */
+function handleJob(res: http.ServerResponse, jobId: string): void {
+  initDatabase();
+  try {
+    const job = getJob(jobId);
+    if (!job) {
+      jsonResponse(res, 404, { error: `No job ${jobId}` });
+      return;
+    }
+    jsonResponse(res, 200, job);
+  } finally {
+    closeDatabase();
+  }
 }
 
-/** Runs the scraper and stores the result. Called after the 202 is sent. */
-async function runScrapeInBackground(date?: string): Promise<void> {
+/** GET /filings — Stored filings, most recently recorded first, a page at a time */
+function handleFilings(res: http.ServerResponse, query: URLSearchParams): void {
+  const limit = query.has('limit') ? parseInt(query.get('limit')!, 10) : 100;
+  let filters: FilingFilters;
   try {
-    const timeoutMs = serverConfig.scrapeTimeoutMs;
-    const result = await Promise.race([
-      runScraper(date),
-      new Promise<never>((_, reject) =>
-        setTimeout(
-          () => reject(new Error(`Scrape timed out after ${timeoutMs / 1000}s`)),
-          timeoutMs,
-        ),
-      ),
-    ]);
-
-    lastResult = result;
+    if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+      throw new Error('limit must be an integer from 1 to 500');
+    }
+    filters = parseFilingFilters(query);
   } catch (error) {
-    // Timeout or unexpected crash — clean up browser
-    try {
-      await closeBrowser();
-    } catch {
-      // Browser may already be closed — ignore
+    jsonResponse(res, 400, { error: error instanceof Error ? error.message : String(error), error_step: 'invalid_request' });
+    return;
+  }
+
+  initDatabase();
+  try {
+    const page = getFilings({ ...filters, limit, cursor: query.get('cursor') || undefined });
+    jsonResponse(res, 200, { count: page.filings.length, ...page });
+  } catch (error) {
+    // getFilings only throws on a cursor it can't read
+    jsonResponse(res, 400, { error: error instanceof Error ? error.message : String(error), error_step: 'invalid_request' });
+  } finally {
+    closeDatabase();
+  }
+}
+
+/** GET /filings/:document_number — The full lead record for one filing */
+function handleFiling(res: http.ServerResponse, documentNumber: string, county: string | null): void {
+  initDatabase();
+  try {
+    const resolvedCounty = county || findFilingCounty(documentNumber);
+    const record = resolvedCounty ? getLeadRecord(resolvedCounty, documentNumber) : null;
+    if (!record) {
+      jsonResponse(res, 404, { error: `No filing ${documentNumber}${county ? ` in ${county}` : ''}` });
+      return;
     }
+    jsonResponse(res, 200, record);
+  } finally {
+    closeDatabase();
+  }
+}
+
+/** GET /export — Matching filings as a CSV, XLSX or JSON Lines download */
+async function handleExport(res: http.ServerResponse, query: URLSearchParams): Promise<void> {
+  const format = (query.get('format') || 'csv') as ExportFormat;
+  let filters: FilingFilters;
+  try {
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new Error(`format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+    filters = parseFilingFilters(query);
+  } catch (error) {
+    jsonResponse(res, 400, { error: error instanceof Error ? error.message : String(error), error_step: 'invalid_request' });
+    return;
+  }
 
+  // Open the database and read the first page before the 200 goes out, so a
+  // failure there can still be answered with a 500
+  let rows: Iterable<ExportRow>;
+  try {
+    initDatabase();
+    try {
+      const iterator = exportRows(filters);
+      const first = iterator.next();
+      rows = (function* () {
+        if (first.done) return;
+        yield first.value;
+        yield* iterator;
+      })();
+    } catch (error) {
+      closeDatabase();
+      throw error;
+    }
+  } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    log.error(`Scrape failed: ${message}`);
+    log.error(`Export failed: ${message}`);
+    jsonResponse(res, 500, { error: message, error_step: 'export' });
+    return;
+  }
 
-    lastResult = {
-      success: false,
-      date_searched: date || new Date().toLocaleDateString('en-US'),
-      total_on_site: 0,
-      new_filings: [],
-      already_seen: 0,
-      consecutive_failures: -1,
-      duration_seconds: 0,
-      error: message,
-      error_step: 'unexpected_server_error',
-    };
+  const filename = `filings-${toIsoDate(today())}.${format}`;
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[format],
+    'Content-Disposition': `attachment; filename="${filename}"`,
+  });
+
+  try {
+    const count = await writeExport(res, format, rows);
+    log.info(`Exported ${count} row(s) as ${format}`);
+  } catch (error) {
+    // Headers are gone by now — cut the download short so it isn't mistaken for a complete file
+    log.error(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+    res.destroy();
+    return;
   } finally {
-    isRunning = false;
+    closeDatabase();
   }
+  res.end();
 }
 
-/** GET /scrape/result — Returns the latest scrape result, or busy status.
- *  Includes a stale-run safety net: if the scrape has been "running" for longer
- *  than the configured timeout + 60s buffer, force-clear the lock so the poll
- *  loop in n8n doesn't spin forever. */
-function handleResult(res: http.ServerResponse): void {
-  if (isRunning) {
-    // Safety net: auto-clear a stale lock if the run has exceeded the timeout
-    const staleLimitMs = serverConfig.scrapeTimeoutMs + 60_000;
-    const elapsed = lastRunAt ? Date.now() - new Date(lastRunAt).getTime() : 0;
-
-    if (elapsed > staleLimitMs) {
-      log.error(`Stale scrape detected (${Math.round(elapsed / 1000)}s). Forcing lock release.`);
-      isRunning = false;
-      if (!lastResult) {
-        lastResult = {
-          success: false,
-          date_searched: new Date().toLocaleDateString('en-US'),
-          total_on_site: 0,
-          new_filings: [],
-          already_seen: 0,
-          consecutive_failures: -1,
-          duration_seconds: Math.round(elapsed / 1000),
-          error: 'Scrape exceeded maximum runtime and was force-cleared',
-          error_step: 'stale_lock_recovery',
-        };
+/** GET /filings/:document_number/document — Serve the archived PDF/image */
+function handleDocument(res: http.ServerResponse, documentNumber: string, county: string | null): void {
+  initDatabase();
+  let archived;
+  try {
+    archived = getArchivedDocument(documentNumber, county ?? undefined);
+  } finally {
+    closeDatabase();
+  }
+
+  if (!archived) {
+    jsonResponse(res, 404, {
+      error: `No archived document for ${documentNumber}${county ? ` in ${county}` : ''}`,
+    });
+    return;
+  }
+
+  const filePath = resolveArchivePath(archived.document_path);
+  if (!fs.existsSync(filePath)) {
+    log.error(`Archived document missing on disk: ${filePath}`);
+    jsonResponse(res, 404, { error: `Archived document file for ${documentNumber} is missing` });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': archived.document_content_type,
+    'Content-Length': fs.statSync(filePath).size,
+    'Content-Disposition': `inline; filename="${path.basename(filePath)}"`,
+    'X-Document-SHA256': archived.document_sha256,
+    'X-County': archived.county,
+  });
+  fs.createReadStream(filePath).pipe(res);
+}
+
+/** POST /lookup-address — Find the property address for the filing in the body */
+async function handleLookupAddress(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const body = await parseBody(req);
+  if (typeof body.grantee_name !== 'string' || !body.grantee_name.trim()) {
+    jsonResponse(res, 400, {
+      error: 'Body must be a filing with a grantee_name',
+      error_step: 'invalid_request',
+    });
+    return;
+  }
+
+  const result = await lookupAddress({
+    county: typeof body.county === 'string' && body.county ? body.county : scraperConfig.defaultCounty,
+    document_number: String(body.document_number ?? ''),
+    grantee_name: body.grantee_name,
+    legal_description: typeof body.legal_description === 'string' ? body.legal_description : '',
+  });
+
+  // A filing we scraped keeps its lookup and is re-scored with the parcel data
+  let leadScore: number | null = null;
+  if (result.lookup_status !== 'error') {
+    initDatabase();
+    try {
+      const stored = getFilingToScore(result.county, result.document_number);
+      if (stored) {
+        saveAddressLookup(stored, result);
+        const score = scoreLead(stored, result);
+        saveLeadScore(stored, score);
+        leadScore = score.lead_score;
       }
-    } else {
-      jsonResponse(res, 200, {
-        scraper_busy: true,
-        message: 'Scrape is still running. Poll again in 30 seconds.',
-        started_at: lastRunAt,
-        elapsed_seconds: Math.round(elapsed / 1000),
-      });
+    } finally {
+      closeDatabase();
+    }
+  }
+
+  jsonResponse(res, result.lookup_status === 'error' ? 400 : 200, { ...result, lead_score: leadScore });
+}
+
+/** POST /filings/:document_number/status — Record where sales is with a lead */
+async function handleLeadStatus(req: http.IncomingMessage, res: http.ServerResponse, documentNumber: string): Promise<void> {
+  const body = await parseBody(req);
+  if (!LEAD_STATUSES.includes(body.status)) {
+    jsonResponse(res, 400, {
+      error: `status must be one of: ${LEAD_STATUSES.join(', ')}`,
+      error_step: 'invalid_request',
+    });
+    return;
+  }
+
+  const county = typeof body.county === 'string' && body.county ? body.county : scraperConfig.defaultCounty;
+  const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null;
+  initDatabase();
+  try {
+    if (!setLeadStatus({ county, document_number: documentNumber }, body.status as LeadStatus, note)) {
+      jsonResponse(res, 404, { error: `No filing ${documentNumber} in ${county}` });
       return;
     }
+    jsonResponse(res, 200, { county, document_number: documentNumber, lead_status: body.status, note });
+  } finally {
+    closeDatabase();
   }
+}
 
-  if (!lastResult) {
-    jsonResponse(res, 200, {
-      scraper_busy: false,
-      message: 'No scrape has been run yet since the server started.',
-      last_run_at: lastRunAt,
+const SKIP_TRACE_STATUSES: SkipTraceStatus[] = ['pending', 'traced', 'no_results'];
+
+function stringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim());
+  return typeof value === 'string' ? parseList(value) : [];
+}
+
+/** POST /filings/:document_number/contacts — Store skip-trace results. Each
+ *  contact names the person party it belongs to, by full record name or by
+ *  first and last name (as Tracerfy returns them). */
+async function handleContacts(req: http.IncomingMessage, res: http.ServerResponse, documentNumber: string): Promise<void> {
+  const body = await parseBody(req);
+  if (!Array.isArray(body.contacts) || body.contacts.length === 0) {
+    jsonResponse(res, 400, {
+      error: 'Body must have a non-empty contacts array',
+      error_step: 'invalid_request',
     });
     return;
   }
 
-  // Return 500 when the scrape failed so n8n's error branch triggers on the
-  // poll response — not just the initial trigger request.
-  const statusCode = lastResult.success ? 200 : 500;
-  jsonResponse(res, statusCode, {
-    scraper_busy: false,
-    ...lastResult,
-  });
+  const county = typeof body.county === 'string' && body.county ? body.county : scraperConfig.defaultCounty;
+  initDatabase();
+  try {
+    const people = getParties(county, documentNumber).filter(p => p.kind === 'person');
+    if (people.length === 0) {
+      jsonResponse(res, 404, { error: `No people on filing ${documentNumber} in ${county}` });
+      return;
+    }
+
+    const same = (a: unknown, b: string | undefined) =>
+      typeof a === 'string' && !!b && a.trim().toUpperCase() === b.toUpperCase();
+    const saved: string[] = [];
+    const unmatched: unknown[] = [];
+    for (const contact of body.contacts) {
+      const party = people.find(p => same(contact?.name, p.name))
+        ?? people.find(p => same(contact?.first_name, p.first_name) && same(contact?.last_name, p.last_name));
+      if (!party) {
+        unmatched.push(contact?.name ?? [contact?.first_name, contact?.last_name].filter(Boolean).join(' '));
+        continue;
+      }
+
+      const phones = stringList(contact.phones);
+      const emails = stringList(contact.emails);
+      const status: SkipTraceStatus = SKIP_TRACE_STATUSES.includes(contact.skip_trace_status)
+        ? contact.skip_trace_status
+        : phones.length > 0 || emails.length > 0 ? 'traced' : 'no_results';
+      saveContact(party.id, {
+        phones,
+        emails,
+        mailing_address: typeof contact.mailing_address === 'string' && contact.mailing_address ? contact.mailing_address : null,
+        skip_trace_status: status,
+      });
+      saved.push(party.name);
+    }
+
+    jsonResponse(res, 200, { county, document_number: documentNumber, saved, unmatched });
+  } finally {
+    closeDatabase();
+  }
+}
+
+/** GET /leads — Scored filings, hottest first */
+function handleLeads(res: http.ServerResponse, query: URLSearchParams): void {
+  const minScore = query.has('min_score') ? Number(query.get('min_score')) : 0;
+  const limit = query.has('limit') ? parseInt(query.get('limit')!, 10) : 100;
+  if (!Number.isFinite(minScore) || !Number.isInteger(limit) || limit < 1 || limit > 500) {
+    jsonResponse(res, 400, {
+      error: 'min_score must be a number and limit an integer from 1 to 500',
+      error_step: 'invalid_request',
+    });
+    return;
+  }
+
+  initDatabase();
+  try {
+    const leads = getLeads({
+      county: query.get('county') ?? undefined,
+      minScore,
+      limit,
+      actionableOnly: query.get('actionable') === 'true',
+    });
+    jsonResponse(res, 200, { count: leads.length, leads });
+  } finally {
+    closeDatabase();
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -245,14 +669,22 @@ function handleResult(res: http.ServerResponse): void {
 // ---------------------------------------------------------------------------
 const httpServer = http.createServer(async (req, res) => {
   const url = req.url?.split('?')[0]; // Strip query params
+  const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
   const method = req.method?.toUpperCase();
 
+  setCorsHeaders(req, res);
+
   // CORS preflight
   if (method === 'OPTIONS') {
     jsonResponse(res, 204, '');
     return;
   }
 
+  const scope = requiredScope(method, url);
+  if (serverConfig.authEnabled && scope && !authorize(req, res, scope)) {
+    return;
+  }
+
   // Route requests
   if (method === 'GET' && url === '/health') {
     return await handleHealth(res);
@@ -266,13 +698,66 @@ const httpServer = http.createServer(async (req, res) => {
     return handleResult(res);
   }
 
+  if (method === 'GET' && url === '/jobs') {
+    return handleJobs(res, query);
+  }
+
+  const jobMatch = url?.match(/^\/jobs\/([^/]+)$/);
+  if (method === 'GET' && jobMatch) {
+    return handleJob(res, decodeURIComponent(jobMatch[1]));
+  }
+
+  if (method === 'GET' && url === '/filings') {
+    return handleFilings(res, query);
+  }
+
+  const filingMatch = url?.match(/^\/filings\/([^/]+)$/);
+  if (method === 'GET' && filingMatch) {
+    return handleFiling(res, decodeURIComponent(filingMatch[1]), query.get('county'));
+  }
+
+  const documentMatch = url?.match(/^\/filings\/([^/]+)\/document$/);
+  if (method === 'GET' && documentMatch) {
+    return handleDocument(res, decodeURIComponent(documentMatch[1]), query.get('county'));
+  }
+
+  if (method === 'GET' && url === '/export') {
+    return handleExport(res, query);
+  }
+
+  if (method === 'POST' && url === '/lookup-address') {
+    return handleLookupAddress(req, res);
+  }
+
+  const leadMatch = url?.match(/^\/filings\/([^/]+)\/(status|contacts)$/);
+  if (method === 'POST' && leadMatch) {
+    const documentNumber = decodeURIComponent(leadMatch[1]);
+    return leadMatch[2] === 'status'
+      ? handleLeadStatus(req, res, documentNumber)
+      : handleContacts(req, res, documentNumber);
+  }
+
+  if (method === 'GET' && url === '/leads') {
+    return handleLeads(res, query);
+  }
+
   // 404 for anything else
   jsonResponse(res, 404, {
     error: 'Not found',
     available_endpoints: {
       'GET /health': 'Server status and database stats',
-      'POST /scrape': 'Trigger a scrape (returns 202, runs in background)',
+      'POST /scrape': 'Queue a scrape (returns 202 with a job_id, runs in background)',
       'GET /scrape/result': 'Get the result of the latest scrape',
+      'GET /jobs': 'Scrape jobs, newest first',
+      'GET /jobs/:id': 'One scrape job with its result',
+      'GET /filings': 'Stored filings with filters and cursor pagination',
+      'GET /filings/:document_number': 'Everything stored about one filing',
+      'GET /filings/:document_number/document': 'Download an archived recorded document',
+      'GET /export': 'Filings as a CSV, XLSX or JSON Lines file in the Google Sheet layout',
+      'POST /lookup-address': 'Find the property address for a filing',
+      'POST /filings/:document_number/status': 'Move a lead to a new status',
+      'POST /filings/:document_number/contacts': 'Store skip-trace results for a filing',
+      'GET /leads': 'Scored filings, highest lead_score first',
     },
   });
 });
@@ -285,16 +770,51 @@ httpServer.listen(serverConfig.port, () => {
   log.info(`Listening on port ${serverConfig.port}`);
   log.info('');
   log.info('Endpoints:');
-  log.info(`  GET  http://localhost:${serverConfig.port}/health         — Status check`);
-  log.info(`  POST http://localhost:${serverConfig.port}/scrape         — Trigger scrape (async)`);
-  log.info(`  GET  http://localhost:${serverConfig.port}/scrape/result  — Poll for result`);
+  log.info(`  GET  http://localhost:${serverConfig.port}/health         — Status check (+ next scheduled runs)`);
+  log.info(`  POST http://localhost:${serverConfig.port}/scrape         — Queue scrape (async)`);
+  log.info(`  GET  http://localhost:${serverConfig.port}/scrape/result  — Latest job's result`);
+  log.info(`  GET  http://localhost:${serverConfig.port}/jobs           — Scrape jobs`);
+  log.info(`  GET  http://localhost:${serverConfig.port}/jobs/:id       — Poll one job`);
+  log.info(`  GET  http://localhost:${serverConfig.port}/filings        — Stored filings (filters, paging)`);
+  log.info(`  GET  http://localhost:${serverConfig.port}/filings/:number — One filing's lead record`);
+  log.info(`  GET  http://localhost:${serverConfig.port}/filings/:number/document — Archived document`);
+  log.info(`  GET  http://localhost:${serverConfig.port}/export         — CSV / XLSX / NDJSON download`);
+  log.info(`  POST http://localhost:${serverConfig.port}/lookup-address — Parcel/address lookup`);
+  log.info(`  POST http://localhost:${serverConfig.port}/filings/:number/status   — Update lead status`);
+  log.info(`  POST http://localhost:${serverConfig.port}/filings/:number/contacts — Store skip-trace results`);
+  log.info(`  GET  http://localhost:${serverConfig.port}/leads          — Leads by score`);
   log.info('');
-  log.info('n8n workflow:');
-  log.info('  1. POST /scrape → receives 202 immediately');
-  log.info('  2. Wait 30s → GET /scrape/result');
-  log.info('  3. If scraper_busy=true, wait 30s and poll again');
-  log.info('  4. If scraper_busy=false, process the result');
+  log.info('n8n workflow (send Authorization: Bearer <API key> on every request):');
+  log.info('  1. POST /scrape → receives 202 with a job_id immediately');
+  log.info('  2. Wait 30s → GET /jobs/:id');
+  log.info('  3. If status is queued or running, wait 30s and poll again');
+  log.info('  4. If status is succeeded or failed, process the result');
   log.info('='.repeat(60));
+
+  if (!serverConfig.authEnabled) {
+    log.warn('API_AUTH_ENABLED=false — every endpoint is open to anyone who can reach this server');
+  } else {
+    initDatabase();
+    try {
+      if (countActiveApiKeys() === 0) {
+        log.warn('No API keys yet — every endpoint but /health will answer 401. Create one with:');
+        log.warn('  npm run api-keys -- create --name n8n --scopes trigger,read');
+      }
+    } finally {
+      closeDatabase();
+    }
+  }
+
+  if (callbackConfig.defaultUrl && !callbackConfig.secret) {
+    log.warn('CALLBACK_URL is set but CALLBACK_SECRET is empty — callbacks will be sent unsigned');
+  }
+
+  // Pick up jobs queued (or interrupted) before this start
+  startJobQueue();
+
+  if (scheduleConfig.enabled || process.argv.includes('--schedule')) {
+    startScheduler();
+  }
 });
 
 // Graceful shutdown
@@ -0,0 +1,46 @@
+/**
+ * CASE TRACKING SCRIPT
+ *
+ * Searches the county's official records for follow-up documents (Final
+ * Judgment, Notice/Certificate of Sale, Certificate of Title, Release of Lis
+ * Pendens) and moves the stored filings they belong to through their case
+ * states. The scheduler queues this daily (SCHEDULE_CASE_TRACKING_CRONS); the
+ * script runs it by hand. Each run re-searches the last few days, and an
+ * overlapping run never records the same document twice.
+ *
+ * Usage: npm run track-cases -- [--county orange] [start date] [end date]
+ *
+ *   start date  First recording date searched (defaults to
+ *               CASE_TRACKING_LOOKBACK_DAYS before today)
+ *   end date    Last recording date searched (defaults to today)
+ */
+
+import { trackCases } from './caseTracking.js';
+import { log } from './logger.js';
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  let county: string | undefined;
+  const dates: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--county') {
+      county = args[++i];
+    } else if (args[i].startsWith('--county=')) {
+      county = args[i].slice('--county='.length);
+    } else {
+      dates.push(args[i]);
+    }
+  }
+
+  const result = await trackCases({ county, startDate: dates[0], endDate: dates[1] });
+
+  log.info(`  Open cases:       ${result.tracked_filings}`);
+  log.info(`  Follow-ups found: ${result.follow_ups_found}`);
+  log.info(`  Events recorded:  ${result.events_recorded}`);
+  log.success(`${result.status_changes.length} case(s) changed status`);
+}
+
+main().catch(error => {
+  log.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,121 @@
+/**
+ * SCRAPE RESULT CALLBACKS
+ *
+ * When a job with a callback_url finishes, its ScrapeResult (with the job_id)
+ * is POSTed there as JSON — so n8n can wait on a Webhook trigger instead of
+ * polling GET /jobs/:id.
+ *
+ * With CALLBACK_SECRET set, every request is signed:
+ *   X-Timestamp: <unix seconds>
+ *   X-Signature: sha256=<hex HMAC-SHA256 of "<X-Timestamp>.<raw body>">
+ * The receiver recomputes the HMAC over the raw body and rejects mismatches
+ * (and old timestamps, to stop replays).
+ *
+ * A non-2xx response or network error is retried, waiting CALLBACK_RETRY_DELAY_MS
+ * and doubling the wait each time, up to CALLBACK_MAX_ATTEMPTS. Every attempt
+ * is recorded on the job; deliveries cut short by a restart are resumed by
+ * startJobQueue().
+ */
+
+import crypto from 'crypto';
+import { initDatabase, closeDatabase, getJob, saveCallbackAttempt, type Job } from './database.js';
+import { callbacks as callbackConfig } from './config.js';
+import { log } from './logger.js';
+
+/** "sha256=<hex>" over `${timestamp}.${body}` */
+export function signPayload(body: string, timestamp: string, secret: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/** The callback_url for a POST /scrape body: the one given, else CALLBACK_URL,
+ *  else none. Throws unless it's an http(s) URL. */
+export function resolveCallbackUrl(value: unknown): string | null {
+  const url = value === undefined || value === null || value === '' ? callbackConfig.defaultUrl : value;
+  if (!url) return null;
+
+  let parsed: URL | null = null;
+  try {
+    parsed = typeof url === 'string' ? new URL(url) : null;
+  } catch {
+    // Reported below
+  }
+  if (!parsed || (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')) {
+    throw new Error('callback_url must be an http(s) URL');
+  }
+  return parsed.toString();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** POST the job's result once. Throws on a network error or non-2xx response. */
+async function post(job: Job & { callback_url: string }): Promise<void> {
+  const body = JSON.stringify({ job_id: job.job_id, status: job.status, ...job.result });
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (callbackConfig.secret) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    headers['X-Timestamp'] = timestamp;
+    headers['X-Signature'] = signPayload(body, timestamp, callbackConfig.secret);
+  }
+
+  const response = await fetch(job.callback_url, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(callbackConfig.requestTimeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+}
+
+/** Deliver a finished job's callback, retrying with backoff. Never rejects —
+ *  the outcome is recorded on the job and logged. */
+export function deliverCallback(jobId: string): Promise<void> {
+  return attemptDelivery(jobId).catch(error => {
+    log.error(`Callback for job ${jobId} stopped: ${error instanceof Error ? error.message : String(error)}`);
+  });
+}
+
+async function attemptDelivery(jobId: string): Promise<void> {
+  for (;;) {
+    initDatabase();
+    let job: Job | null;
+    try {
+      job = getJob(jobId);
+    } finally {
+      closeDatabase();
+    }
+    if (!job?.callback_url || job.callback_status !== 'pending') return;
+
+    const attempt = job.callback_attempts + 1;
+    let error: string | null = null;
+    try {
+      await post({ ...job, callback_url: job.callback_url });
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    const status = error === null ? 'delivered' : attempt >= callbackConfig.maxAttempts ? 'failed' : 'pending';
+    initDatabase();
+    try {
+      saveCallbackAttempt(jobId, status, error);
+    } finally {
+      closeDatabase();
+    }
+
+    if (status === 'delivered') {
+      log.success(`Callback for job ${jobId} delivered to ${job.callback_url}`);
+      return;
+    }
+    if (status === 'failed') {
+      log.error(`Callback for job ${jobId} to ${job.callback_url} failed after ${attempt} attempt(s): ${error}`);
+      return;
+    }
+
+    const waitMs = callbackConfig.initialDelayMs * 2 ** (attempt - 1);
+    log.warn(`Callback for job ${jobId} failed (attempt ${attempt}): ${error} — retrying in ${Math.round(waitMs / 1000)}s`);
+    await sleep(waitMs);
+  }
+}